@@ -0,0 +1,302 @@
+import * as fs from 'fs';
+import { logger } from './logger';
+import { config } from './config';
+import { PickUnit, Price, Product, ProductSelection } from './types';
+import { calculateCost, describeOffer, formatPrice, getEffectivePrice } from './price';
+
+/**
+ * One line of a proposed basket
+ */
+export interface BasketLine {
+  item: string; // The shopping list item as written
+  searchTerm: string; // The term used to search for it
+  code?: string; // Hemköp product code
+  title: string;
+  quantity: number; // Pieces or packages, or kg when pickUnit is kilogram
+  pickUnit?: PickUnit;
+  expectedCost?: number; // Öre, from the kg price for loose-weight products and with multi-buy offers applied
+  price?: string;
+  comparePrice?: string;
+  displayVolume?: string;
+  offer?: string; // The offer the quantity qualifies for, e.g. "Köp 3 betala för 2"
+  offerSaving?: number; // Öre saved by the offer, when the regular price is known
+  reasoning: string;
+  substitutes?: BasketLine[]; // Next-best products, added instead if this one can't be
+}
+
+/**
+ * A candidate product shown for an unresolved item
+ */
+export type UnresolvedCandidate = Pick<Product, 'code' | 'title' | 'price' | 'comparePrice' | 'displayVolume'>;
+
+/**
+ * A shopping list item without a good enough product match. Nothing is added to the cart for it.
+ */
+export interface UnresolvedItem {
+  item: string; // The shopping list item as written
+  searchTerm: string;
+  reason: string;
+  candidates: UnresolvedCandidate[]; // The best search results, most likely first
+  screenshot?: string; // Screenshot of the search results on hemkop.se
+}
+
+/**
+ * A basket proposal saved by a dry run, to be applied by a later run
+ */
+interface BasketPlan {
+  createdAt: string;
+  lines: BasketLine[];
+  unresolved?: UnresolvedItem[];
+}
+
+/**
+ * Log a proposed basket with the reasoning behind each line
+ * @param lines The proposed basket lines
+ */
+export function logBasketProposal(lines: BasketLine[]): void {
+  if (lines.length === 0) {
+    logger.info('Proposed basket is empty.');
+    return;
+  }
+
+  logger.info('=== PROPOSED BASKET (dry run) ===');
+  lines.forEach((line, index) => {
+    logger.info(`${index + 1}. ${line.item}`);
+    logger.info(`   Product: ${line.title}`);
+    logger.info(`   Quantity: ${formatQuantity(line.quantity, line.pickUnit)}`);
+    if (line.expectedCost !== undefined) {
+      logger.info(`   Expected cost: ${formatPrice(line.expectedCost)}`);
+    }
+    if (line.offer) {
+      logger.info(`   Offer: ${line.offer}`);
+    }
+    if (line.substitutes?.length) {
+      logger.info(`   If unavailable: ${line.substitutes.map(substitute => substitute.title).join(', ')}`);
+    }
+    logger.info(`   Price: ${line.price || 'N/A'} | Compare Price: ${line.comparePrice || 'N/A'}`);
+    logger.info(`   Reasoning: ${summarizeReasoning(line.reasoning)}`);
+  });
+  const total = lines.reduce((sum, line) => sum + (line.expectedCost ?? 0), 0);
+  logger.info(`Expected total: ${formatPrice(total)}`);
+  logger.info('=================================');
+}
+
+/**
+ * Keep the reasoning readable in the proposal, the full text is in the plan file
+ */
+function summarizeReasoning(reasoning: string): string {
+  const singleLine = reasoning.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 300 ? `${singleLine.slice(0, 297)}...` : singleLine;
+}
+
+/**
+ * Log the items that need a manual decision, with the candidates that were found
+ * @param unresolved The unresolved items
+ */
+export function logUnresolvedItems(unresolved: UnresolvedItem[]): void {
+  if (unresolved.length === 0) {
+    return;
+  }
+
+  logger.info('=== UNRESOLVED ITEMS (not added to the cart) ===');
+  unresolved.forEach((entry, index) => {
+    logger.info(`${index + 1}. ${entry.item} (searched for "${entry.searchTerm}")`);
+    logger.info(`   Reason: ${summarizeReasoning(entry.reason)}`);
+    if (entry.candidates.length === 0) {
+      logger.info('   No candidates found');
+    }
+    entry.candidates.forEach(candidate => {
+      const details = [candidate.price, candidate.comparePrice, candidate.displayVolume].filter(Boolean).join(' | ');
+      logger.info(`   - ${candidate.title}${details ? ` (${details})` : ''}`);
+    });
+    if (entry.screenshot) {
+      logger.info(`   Search results: ${entry.screenshot}`);
+    }
+  });
+  logger.info('================================================');
+}
+
+/**
+ * Log the offers the basket makes use of and what they save
+ * @param lines The basket lines
+ */
+export function logAppliedOffers(lines: BasketLine[]): void {
+  const offerLines = lines.filter(line => line.offer);
+  if (offerLines.length === 0) {
+    return;
+  }
+
+  logger.info('=== OFFERS APPLIED ===');
+  offerLines.forEach(line => {
+    const saving = line.offerSaving ? `, saves ${formatPrice(line.offerSaving)}` : '';
+    logger.info(`${line.title}: ${line.offer} (quantity ${formatQuantity(line.quantity, line.pickUnit)}${saving})`);
+  });
+  const total = offerLines.reduce((sum, line) => sum + (line.offerSaving ?? 0), 0);
+  if (total > 0) {
+    logger.info(`Total saved by offers: ${formatPrice(total)}`);
+  }
+  logger.info('======================');
+}
+
+/**
+ * Save a basket proposal so it can be reviewed and applied later
+ * @param lines The proposed basket lines
+ * @param filePath Where to write the plan
+ * @param unresolved Items left for a manual decision, saved for reference
+ */
+export function saveBasketPlan(lines: BasketLine[], filePath: string, unresolved: UnresolvedItem[] = []): void {
+  const plan: BasketPlan = {
+    createdAt: new Date().toISOString(),
+    lines,
+    unresolved
+  };
+
+  fs.writeFileSync(filePath, JSON.stringify(plan, null, 2), 'utf-8');
+  logger.info(`Basket plan saved to ${filePath}. Apply it with: yarn start --apply ${filePath}`);
+}
+
+/**
+ * Load a basket proposal saved by a dry run
+ * @param filePath The plan file
+ * @returns The basket lines, or an empty list if the file can't be read
+ */
+export function loadBasketPlan(filePath: string): BasketLine[] {
+  try {
+    const plan = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BasketPlan;
+    if (!Array.isArray(plan.lines)) {
+      logger.error(`Basket plan ${filePath} has no lines`);
+      return [];
+    }
+    logger.info(`Loaded basket plan from ${filePath} (${plan.lines.length} lines, created ${plan.createdAt})`);
+    return plan.lines;
+  } catch (error) {
+    logger.error(`Could not read basket plan ${filePath}: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Create a basket line from a product selection
+ * @param item The shopping list item as written
+ * @param searchTerm The term used to search for it
+ * @param selection The selected product, with its planned quantity
+ * @returns The basket line
+ */
+export function toBasketLine(item: string, searchTerm: string, selection: ProductSelection): BasketLine {
+  const { product, reasoning } = selection;
+  const pickUnit = getPickUnit(product);
+  const expectedCost = calculateExpectedCost(product, product.quantity, pickUnit);
+  const offer = getAppliedOffer(product, product.quantity);
+  return {
+    item,
+    searchTerm,
+    code: product.code,
+    title: product.title,
+    quantity: product.quantity,
+    pickUnit,
+    expectedCost,
+    price: product.price,
+    comparePrice: product.comparePrice,
+    displayVolume: product.displayVolume,
+    offer: offer ? describeOffer(offer) : undefined,
+    offerSaving: offer ? calculateOfferSaving(product, offer, pickUnit, expectedCost) : undefined,
+    reasoning
+  };
+}
+
+/**
+ * Create an unresolved item from the search results
+ * @param item The shopping list item as written
+ * @param searchTerm The term used to search for it
+ * @param reason Why no product was chosen
+ * @param products The search results, the most likely match first
+ * @returns The unresolved item with the top candidates
+ */
+export function toUnresolvedItem(item: string, searchTerm: string, reason: string, products: Product[]): UnresolvedItem {
+  return {
+    item,
+    searchTerm,
+    reason,
+    candidates: products.slice(0, config.selection.unresolvedCandidates).map(product => ({
+      code: product.code,
+      title: product.title,
+      price: product.price,
+      comparePrice: product.comparePrice,
+      displayVolume: product.displayVolume
+    }))
+  };
+}
+
+/**
+ * Get the unit a product's cart quantity is given in
+ * @param product The product
+ * @returns kilogram for loose-weight products the site takes orders in kg for, otherwise pieces
+ */
+export function getPickUnit(product: Product): PickUnit {
+  return product.sellingUnit === 'kg' && product.orderByWeight ? 'kilogram' : 'pieces';
+}
+
+/**
+ * Calculate what a quantity of a product is expected to cost. Loose-weight products
+ * are priced per kg, so pieces are converted with their approximate weight.
+ * @param product The product
+ * @param quantity Pieces, packages or kg
+ * @param pickUnit The unit of the quantity
+ * @returns The cost in öre, or undefined if the price or piece weight is unknown
+ */
+export function calculateExpectedCost(product: Product, quantity: number, pickUnit: PickUnit): number | undefined {
+  const price = getEffectivePrice(product);
+  return price ? calculateCostAt(price, product, quantity, pickUnit) : undefined;
+}
+
+/**
+ * Calculate the cost of a quantity of a product at a given price
+ */
+function calculateCostAt(price: Price, product: Product, quantity: number, pickUnit: PickUnit): number | undefined {
+  if (price.unit !== 'kg' || pickUnit === 'kilogram') {
+    return calculateCost(price, quantity);
+  }
+
+  if (!product.pieceWeight) {
+    return undefined;
+  }
+  return calculateCost(price, quantity * product.pieceWeight / 1000);
+}
+
+/**
+ * Get the offer a quantity of a product qualifies for
+ * @param product The product
+ * @param quantity The planned quantity
+ * @returns The offer price, or undefined if there is no offer or the quantity doesn't reach it
+ */
+function getAppliedOffer(product: Product, quantity: number): Price | undefined {
+  const price = getEffectivePrice(product);
+  if (!price || !describeOffer(price)) {
+    return undefined;
+  }
+  if (price.multiBuy && quantity < price.multiBuy.quantity) {
+    return undefined;
+  }
+  return price;
+}
+
+/**
+ * Work out what an offer saves against the regular price
+ */
+function calculateOfferSaving(product: Product, offer: Price, pickUnit: PickUnit, expectedCost: number | undefined): number | undefined {
+  if (!offer.regularAmount || expectedCost === undefined) {
+    return undefined;
+  }
+  const regularCost = calculateCostAt({ ...offer, amount: offer.regularAmount, multiBuy: undefined }, product, product.quantity, pickUnit);
+  return regularCost !== undefined && regularCost > expectedCost ? regularCost - expectedCost : undefined;
+}
+
+/**
+ * Format a cart quantity with its unit
+ * @param quantity Pieces, packages or kg
+ * @param pickUnit The unit of the quantity
+ * @returns Text such as "3" or "2.5 kg"
+ */
+export function formatQuantity(quantity: number, pickUnit?: PickUnit): string {
+  return pickUnit === 'kilogram' ? `${quantity} kg` : String(quantity);
+}
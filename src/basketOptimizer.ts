@@ -0,0 +1,221 @@
+import { config } from './config';
+import { BasketStrategy, ParsedIngredient, Price, Product, ProductSelection } from './types';
+import { logger } from './logger';
+import { calculateExpectedCost, getPickUnit } from './basket';
+import { calculateOptimalQuantity } from './quantity';
+import { formatPrice, getEffectiveComparePrice, getEffectivePrice } from './price';
+import { isSameKind, titleMatchScore } from './ruleBasedProvider';
+
+/**
+ * A shopping list item with the product selected for it
+ */
+export interface PlannedItem {
+  item: ParsedIngredient;
+  selection: ProductSelection;
+}
+
+/**
+ * A product that could fill a shopping list item, with the quantity and cost it takes
+ */
+interface BasketOption {
+  product: Product;
+  cost: number; // Expected cost in öre of the quantity the item needs
+  comparePrice?: Price;
+}
+
+/**
+ * The choices for one shopping list item
+ */
+interface ItemOptions {
+  planned: PlannedItem;
+  original: BasketOption;
+  alternatives: BasketOption[];
+  chosen: BasketOption;
+  reason?: string; // Why the chosen option replaced the original, e.g. "by the cheapest strategy"
+}
+
+/**
+ * Work out the quantity and cost of a product for a shopping list item
+ */
+function toOption(product: Product, item: ParsedIngredient): BasketOption | undefined {
+  const option = { ...product };
+  option.quantity = calculateOptimalQuantity(option, item);
+  const cost = calculateExpectedCost(option, option.quantity, getPickUnit(option));
+  if (cost === undefined) {
+    return undefined;
+  }
+  return { product: option, cost, comparePrice: getEffectiveComparePrice(option) ?? getEffectivePrice(option) };
+}
+
+/**
+ * Collect the products that could replace the selected one: in stock, the same
+ * kind of product as the item and with a known price
+ */
+function getItemOptions(planned: PlannedItem): ItemOptions | undefined {
+  const { item, selection } = planned;
+  const original = toOption(selection.product, item);
+  if (!original) {
+    logger.debug(`No price for ${selection.product.title}, keeping it for ${item.raw}`);
+    return undefined;
+  }
+
+  const alternatives = (selection.fixed ? [] : selection.candidates || [])
+    .filter(product => product.code !== selection.product.code)
+    .filter(product => product.inStock !== false)
+    .filter(product => isSameKind(item.name, product.title))
+    .map(product => toOption(product, item))
+    .filter((option): option is BasketOption => !!option);
+
+  return { planned, original, alternatives, chosen: original };
+}
+
+/**
+ * Get the compare price of an option in the unit of the original choice, so
+ * per kg prices aren't weighed against per piece prices
+ */
+function comparableAmount(option: BasketOption, original: BasketOption): number | undefined {
+  if (!option.comparePrice || !original.comparePrice || option.comparePrice.unit !== original.comparePrice.unit) {
+    return undefined;
+  }
+  return option.comparePrice.amount;
+}
+
+/**
+ * Pick the option with the lowest compare price, breaking ties on cost
+ */
+function lowestComparePrice(options: ItemOptions): BasketOption {
+  let best = options.original;
+  let bestAmount = comparableAmount(best, options.original);
+  for (const option of options.alternatives) {
+    const amount = comparableAmount(option, options.original);
+    if (amount === undefined || bestAmount === undefined) {
+      continue;
+    }
+    if (amount < bestAmount || (amount === bestAmount && option.cost < best.cost)) {
+      best = option;
+      bestAmount = amount;
+    }
+  }
+  return best;
+}
+
+/**
+ * Choose an option for an item according to the strategy
+ */
+function chooseByStrategy(options: ItemOptions, strategy: BasketStrategy): BasketOption {
+  if (strategy === 'premium') {
+    return options.original;
+  }
+
+  const cheapest = lowestComparePrice(options);
+  if (strategy === 'cheapest' || cheapest === options.original) {
+    return cheapest;
+  }
+
+  // Balanced: only give up the LLM's choice for a clear saving
+  const originalAmount = comparableAmount(options.original, options.original)!;
+  const cheapestAmount = comparableAmount(cheapest, options.original)!;
+  const saving = originalAmount > 0 ? (originalAmount - cheapestAmount) / originalAmount : 0;
+  return saving >= config.optimizer.balancedMinSaving ? cheapest : options.original;
+}
+
+/**
+ * Swap items for cheaper options, largest saving first, until the total fits the budget
+ */
+function fitBudget(itemOptions: ItemOptions[], budget: number): void {
+  let total = itemOptions.reduce((sum, options) => sum + options.chosen.cost, 0);
+
+  while (total > budget) {
+    let bestSwap: { options: ItemOptions; option: BasketOption } | undefined;
+    for (const options of itemOptions) {
+      for (const option of [options.original, ...options.alternatives]) {
+        const saving = options.chosen.cost - option.cost;
+        if (saving > 0 && (!bestSwap || saving > bestSwap.options.chosen.cost - bestSwap.option.cost)) {
+          bestSwap = { options, option };
+        }
+      }
+    }
+
+    if (!bestSwap) {
+      logger.error(`The basket costs at least ${formatPrice(total)}, over the budget of ${formatPrice(budget)}`);
+      return;
+    }
+
+    total -= bestSwap.options.chosen.cost - bestSwap.option.cost;
+    bestSwap.options.chosen = bestSwap.option;
+    bestSwap.options.reason = 'to fit the budget';
+  }
+}
+
+/**
+ * Turn the chosen option back into a product selection
+ */
+function toSelection(options: ItemOptions): ProductSelection {
+  const { item, selection } = options.planned;
+  if (options.chosen === options.original) {
+    return selection;
+  }
+
+  const product = options.chosen.product;
+  const saving = options.original.cost - options.chosen.cost;
+  return {
+    product,
+    reasoning: `Chosen ${options.reason} instead of "${selection.product.title}", ${formatPrice(saving)} cheaper`,
+    score: titleMatchScore(item.name, product.title),
+    searchTerm: selection.searchTerm,
+    candidates: selection.candidates
+  };
+}
+
+/**
+ * Log the expected total and what each item saves against the original choices
+ */
+function logOptimization(itemOptions: ItemOptions[], strategy: BasketStrategy, budget?: number): void {
+  const originalTotal = itemOptions.reduce((sum, options) => sum + options.original.cost, 0);
+  const total = itemOptions.reduce((sum, options) => sum + options.chosen.cost, 0);
+
+  logger.info(`=== BASKET OPTIMIZATION (${strategy}) ===`);
+  itemOptions.forEach(options => {
+    const saving = options.original.cost - options.chosen.cost;
+    if (options.chosen === options.original) {
+      logger.info(`${options.planned.item.raw}: kept ${options.original.product.title} (${formatPrice(options.original.cost)})`);
+    } else {
+      logger.info(`${options.planned.item.raw}: ${options.original.product.title} (${formatPrice(options.original.cost)}) → ${options.chosen.product.title} (${formatPrice(options.chosen.cost)}), saves ${formatPrice(saving)}`);
+    }
+  });
+  logger.info(`Expected total: ${formatPrice(total)} (original choices: ${formatPrice(originalTotal)}, saving ${formatPrice(originalTotal - total)})`);
+  if (budget !== undefined) {
+    logger.info(`Budget: ${formatPrice(budget)}, ${total <= budget ? 'met' : 'exceeded'}`);
+  }
+  logger.info('=============================');
+}
+
+/**
+ * Choose products for all items together, trading the LLM's choices for cheaper
+ * alternatives according to the strategy and budget
+ * @param plannedItems The shopping list items with their selected products
+ * @param strategy How far to go for a lower compare price
+ * @param budget Maximum expected total in öre, cheaper alternatives are used until it is met
+ * @returns The items with their final selections, in the same order
+ */
+export function optimizeBasket(plannedItems: PlannedItem[], strategy: BasketStrategy, budget?: number): PlannedItem[] {
+  const itemOptions = plannedItems
+    .map(planned => getItemOptions(planned))
+    .filter((options): options is ItemOptions => !!options);
+
+  itemOptions.forEach(options => {
+    options.chosen = chooseByStrategy(options, strategy);
+    options.reason = `by the ${strategy} strategy`;
+  });
+
+  if (budget !== undefined) {
+    fitBudget(itemOptions, budget);
+  }
+
+  logOptimization(itemOptions, strategy, budget);
+
+  return plannedItems.map(planned => {
+    const options = itemOptions.find(candidate => candidate.planned === planned);
+    return options ? { item: planned.item, selection: toSelection(options) } : planned;
+  });
+}
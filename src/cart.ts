@@ -0,0 +1,301 @@
+import { APIRequestContext, Page } from 'playwright';
+import { config } from './config';
+import { logger } from './logger';
+import { BasketLine } from './basket';
+import { PickUnit } from './types';
+import { formatPrice, parsePrice } from './price';
+
+/**
+ * A line in the hemkop.se cart
+ */
+export interface CartLine {
+  code: string;
+  title: string;
+  quantity: number;
+  price?: string; // Price per item, e.g. "25,90 kr"
+  linePrice?: string; // Price for the whole line
+}
+
+/**
+ * A change needed to make the cart match the planned basket
+ */
+export interface CartChange {
+  action: 'add' | 'increase' | 'decrease' | 'remove';
+  code: string;
+  title: string;
+  currentQuantity: number;
+  targetQuantity: number;
+  pickUnit: PickUnit;
+}
+
+/**
+ * A cart line as returned by the hemkop.se cart endpoint
+ */
+interface HemkopCartProduct {
+  code: string;
+  name: string;
+  quantity?: number;
+  pickQuantity?: number;
+  price?: string;
+  totalPrice?: string;
+  [key: string]: any;
+}
+
+/**
+ * The response of the hemkop.se cart endpoint
+ */
+interface HemkopCartResponse {
+  products?: HemkopCartProduct[];
+  totalPrice?: string;
+}
+
+/**
+ * Get the CSRF token the cart endpoints require for changes
+ */
+async function getCsrfToken(page: Page): Promise<string | undefined> {
+  try {
+    const response = await page.request.get(config.cart.csrfTokenUrl, { timeout: config.timeouts.navigation });
+    if (!response.ok()) {
+      return undefined;
+    }
+    const token = await response.json();
+    return typeof token === 'string' ? token : undefined;
+  } catch (error) {
+    logger.debug(`Could not get CSRF token: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Convert the cart endpoint response into cart lines
+ */
+function toCartLines(data: HemkopCartResponse): CartLine[] {
+  return (Array.isArray(data.products) ? data.products : []).map(product => ({
+    code: product.code,
+    title: product.name,
+    quantity: product.pickQuantity ?? product.quantity ?? 0,
+    price: product.price,
+    linePrice: product.totalPrice
+  }));
+}
+
+/**
+ * Read the cart of the browser session from hemkop.se
+ * @param request The request context of a page or of the saved session, its cookies identify the cart
+ * @returns The cart lines, or null if the cart couldn't be read
+ */
+export async function readCart(request: APIRequestContext): Promise<CartLine[] | null> {
+  try {
+    const response = await request.get(config.cart.url, {
+      headers: { 'Accept': 'application/json' },
+      timeout: config.timeouts.navigation
+    });
+
+    if (!response.ok()) {
+      logger.error(`Reading the cart failed: HTTP ${response.status()}`);
+      return null;
+    }
+
+    const lines = toCartLines(await response.json() as HemkopCartResponse);
+    logger.debug(`Cart contains ${lines.length} lines`);
+    return lines;
+  } catch (error) {
+    logger.error(`Error reading the cart: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Set the quantity of a product in the cart. Zero removes the line.
+ * @param page Playwright page, its cookies identify the cart
+ * @param code The product code
+ * @param quantity The quantity the cart should hold, in kg for products ordered by weight
+ * @param pickUnit Whether the quantity is pieces or kg
+ * @returns Whether the cart accepted the change
+ */
+export async function setCartQuantity(page: Page, code: string, quantity: number, pickUnit: PickUnit = 'pieces'): Promise<boolean> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+    'Content-Type': 'application/json'
+  };
+  const csrfToken = await getCsrfToken(page);
+  if (csrfToken) {
+    headers['X-CSRF-Token'] = csrfToken;
+  }
+
+  try {
+    const response = await page.request.post(config.cart.addProductsUrl, {
+      headers,
+      data: {
+        products: [{
+          productCodePost: code,
+          qty: quantity,
+          pickUnit,
+          hideDiscountToolTip: false,
+          noReplacementFlag: false
+        }]
+      },
+      timeout: config.timeouts.navigation
+    });
+
+    if (!response.ok()) {
+      logger.error(`Setting ${code} to ${quantity} failed: HTTP ${response.status()}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error(`Error setting the quantity of ${code}: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Work out the changes that make the cart match the planned basket
+ * @param cart The current cart lines
+ * @param lines The planned basket lines, only lines with a product code are considered
+ * @param removeUnplanned Whether products that aren't in the plan should be removed
+ * @returns The changes, in plan order followed by removals
+ */
+export function diffCart(cart: CartLine[], lines: BasketLine[], removeUnplanned: boolean): CartChange[] {
+  // Several shopping list items can end up as the same product
+  const planned = new Map<string, { title: string; quantity: number; pickUnit: PickUnit }>();
+  lines.filter(line => line.code).forEach(line => {
+    const entry = planned.get(line.code!);
+    planned.set(line.code!, {
+      title: line.title,
+      quantity: roundQuantity((entry?.quantity ?? 0) + line.quantity),
+      pickUnit: line.pickUnit || 'pieces'
+    });
+  });
+
+  const changes: CartChange[] = [];
+  planned.forEach(({ title, quantity, pickUnit }, code) => {
+    const currentQuantity = cart.find(cartLine => cartLine.code === code)?.quantity ?? 0;
+    if (sameQuantity(currentQuantity, quantity)) {
+      return;
+    }
+    const action = currentQuantity === 0 ? 'add' : currentQuantity < quantity ? 'increase' : 'decrease';
+    changes.push({ action, code, title, currentQuantity, targetQuantity: quantity, pickUnit });
+  });
+
+  if (removeUnplanned) {
+    cart.filter(cartLine => !planned.has(cartLine.code) && cartLine.quantity > 0).forEach(cartLine => {
+      changes.push({ action: 'remove', code: cartLine.code, title: cartLine.title, currentQuantity: cartLine.quantity, targetQuantity: 0, pickUnit: 'pieces' });
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * List the cart lines that aren't in the plan and are removed when syncing
+ * @param changes The changes worked out by diffCart
+ */
+export function logCartRemovals(changes: CartChange[]): void {
+  const removals = changes.filter(change => change.action === 'remove');
+  if (removals.length === 0) {
+    return;
+  }
+
+  logger.info(`=== CART LINES TO REMOVE (${removals.length}) ===`);
+  removals.forEach(removal => logger.info(`${removal.title} (${removal.currentQuantity})`));
+  logger.info('=============================');
+}
+
+/**
+ * Make the cart match the planned basket, so running the same plan twice doesn't double it
+ * @param page Playwright page, its cookies identify the cart
+ * @param lines The planned basket lines with product codes
+ * @param removeUnplanned Whether products that aren't in the plan should be removed
+ * @returns The changes that failed or didn't show up in the cart, or null if the cart couldn't be read
+ */
+export async function reconcileCart(page: Page, lines: BasketLine[], removeUnplanned: boolean): Promise<CartChange[] | null> {
+  const cart = await readCart(page.request);
+  if (!cart) {
+    return null;
+  }
+
+  const changes = diffCart(cart, lines, removeUnplanned);
+  if (changes.length === 0) {
+    logger.info('The cart already matches the planned basket');
+    return [];
+  }
+
+  // Show everything that will be removed before touching the cart
+  logCartRemovals(changes);
+
+  const failed: CartChange[] = [];
+  for (const change of changes) {
+    logger.info(`${formatAction(change.action)} ${change.title}: ${change.currentQuantity} → ${change.targetQuantity}`);
+    if (!await setCartQuantity(page, change.code, change.targetQuantity, change.pickUnit)) {
+      failed.push(change);
+    }
+  }
+
+  // Check the cart really holds the new quantities
+  const updatedCart = await readCart(page.request);
+  if (updatedCart) {
+    changes.filter(change => !failed.includes(change)).forEach(change => {
+      const quantity = updatedCart.find(cartLine => cartLine.code === change.code)?.quantity ?? 0;
+      if (!sameQuantity(quantity, change.targetQuantity)) {
+        logger.error(`${change.title} is ${quantity} in the cart, expected ${change.targetQuantity}`);
+        failed.push(change);
+      }
+    });
+  }
+
+  return failed;
+}
+
+/**
+ * Round away floating point noise from summed kg quantities
+ */
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 1000) / 1000;
+}
+
+/**
+ * Compare quantities, which may be kg with decimals
+ * @param a A quantity
+ * @param b Another quantity
+ * @returns Whether they are equal, ignoring floating point noise
+ */
+export function sameQuantity(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.001;
+}
+
+/**
+ * Capitalize a change action for display
+ */
+function formatAction(action: CartChange['action']): string {
+  return action.charAt(0).toUpperCase() + action.slice(1);
+}
+
+/**
+ * Log the cart contents in a nicely formatted table
+ * @param cart The cart lines
+ */
+export function logCart(cart: CartLine[]): void {
+  if (cart.length === 0) {
+    logger.info('Final shopping cart is empty.');
+    return;
+  }
+
+  logger.info('=== FINAL SHOPPING CART ===');
+  logger.info('Name | Quantity | Price | Line Price');
+  logger.info('-----|----------|-------|-----------');
+
+  let totalPrice = 0;
+  cart.forEach(line => {
+    // Fall back to price times quantity when the line price is missing
+    const unitPrice = parsePrice(line.price);
+    const linePrice = parsePrice(line.linePrice)?.amount ?? (unitPrice ? Math.round(unitPrice.amount * line.quantity) : 0);
+    totalPrice += linePrice;
+
+    logger.info(`${line.title} | ${line.quantity} | ${line.price || 'N/A'} | ${line.linePrice || formatPrice(linePrice)}`);
+  });
+
+  logger.info('-----|----------|-------|-----------');
+  logger.info(`TOTAL: ${formatPrice(totalPrice)} (${cart.length} unique items)`);
+  logger.info('=============================');
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import { logger } from './logger';
+import { BasketStrategy } from './types';
+
+/**
+ * Check whether a flag was passed on the command line
+ * @param names The flag and its aliases (e.g. ['--verbose', '-v'])
+ * @returns Whether any of the names is present
+ */
+export function hasFlag(names: string[]): boolean {
+  return process.argv.slice(2).some(arg => names.includes(arg));
+}
+
+/**
+ * Get all values passed after an option, which may be repeated
+ * @param names The option and its aliases (e.g. ['--recipe', '-r'])
+ * @returns The values in the order they were given
+ */
+export function getOptionValues(names: string[]): string[] {
+  const args = process.argv.slice(2);
+  const values: string[] = [];
+
+  args.forEach((arg, index) => {
+    if (names.includes(arg) && index < args.length - 1) {
+      values.push(args[index + 1]);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Get the value passed after an option
+ * @param names The option and its aliases
+ * @returns The last value given, or undefined if the option is missing
+ */
+export function getOptionValue(names: string[]): string | undefined {
+  const values = getOptionValues(names);
+  return values.length > 0 ? values[values.length - 1] : undefined;
+}
+
+/**
+ * Get recipe URLs from command line arguments.
+ * URLs can be passed directly, after --recipe/-r, or listed in a file given with --file/-f.
+ * @returns Unique recipe URLs in the order they were given
+ */
+export function getRecipeUrlsFromCommandLine(): string[] {
+  const args = process.argv.slice(2);
+  const candidates: string[] = [];
+
+  // Look for URLs in the command line arguments
+  candidates.push(...args.filter(arg => arg.startsWith('http')));
+
+  // Check for --recipe flags
+  candidates.push(...getOptionValues(['--recipe', '-r']).filter(arg => !arg.startsWith('http')));
+
+  // Read URLs from files, one per line, ignoring blank lines and # comments
+  for (const filePath of getOptionValues(['--file', '-f'])) {
+    try {
+      const lines = fs.readFileSync(filePath, 'utf-8')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'));
+      logger.debug(`Read ${lines.length} recipe URLs from ${filePath}`);
+      candidates.push(...lines);
+    } catch (error) {
+      logger.error(`Could not read recipe file ${filePath}: ${error}`);
+    }
+  }
+
+  const urls: string[] = [];
+  for (const candidate of candidates) {
+    try {
+      const url = new URL(candidate).toString();
+      if (!urls.includes(url)) {
+        urls.push(url);
+      }
+    } catch (error) {
+      logger.error(`Invalid URL provided: ${candidate}`);
+    }
+  }
+
+  return urls;
+}
+
+/**
+ * Get the number of servings to shop for from the --servings option
+ * @returns The number of servings, or undefined if not given or invalid
+ */
+export function getServingsFromCommandLine(): number | undefined {
+  const value = getOptionValue(['--servings']);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const servings = parseInt(value, 10);
+  if (isNaN(servings) || servings <= 0) {
+    logger.error(`Invalid number of servings: ${value}`);
+    return undefined;
+  }
+
+  return servings;
+}
+
+/**
+ * Get the basket optimization strategy from the --strategy option
+ * @returns The strategy, or undefined if not given or invalid
+ */
+export function getStrategyFromCommandLine(): BasketStrategy | undefined {
+  const value = getOptionValue(['--strategy']);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value !== 'cheapest' && value !== 'balanced' && value !== 'premium') {
+    logger.error(`Invalid strategy: ${value} (use cheapest, balanced or premium)`);
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Get the basket budget from the --budget option, given in kronor
+ * @returns The budget in öre, or undefined if not given or invalid
+ */
+export function getBudgetFromCommandLine(): number | undefined {
+  const value = getOptionValue(['--budget']);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const budget = parseFloat(value.replace(',', '.'));
+  if (isNaN(budget) || budget <= 0) {
+    logger.error(`Invalid budget: ${value}`);
+    return undefined;
+  }
+
+  return Math.round(budget * 100);
+}
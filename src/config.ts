@@ -2,6 +2,31 @@ export const config = {
   // URL to the Hemköp website
   baseUrl: 'https://www.hemkop.se/',
   
+  // Search API used by the hemkop.se frontend
+  api: {
+    searchUrl: 'https://www.hemkop.se/search',
+    productUrl: 'https://www.hemkop.se/axfood/rest/p/', // Followed by the product code
+    pageSize: 30,
+    userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0 Safari/537.36'
+  },
+  
+  // Cart endpoints used by the hemkop.se frontend
+  cart: {
+    url: 'https://www.hemkop.se/axfood/rest/cart',
+    addProductsUrl: 'https://www.hemkop.se/axfood/rest/cart/addProducts',
+    csrfTokenUrl: 'https://www.hemkop.se/axfood/rest/csrf-token',
+    removeUnplanned: false, // Remove cart lines that aren't in the planned basket without passing --sync
+    maxQuantityClicks: 20 // Plus/minus clicks allowed when typing the quantity doesn't stick
+  },
+  
+  // Saved login session
+  session: {
+    storageStatePath: 'hemkop-session.json', // Cookies and local storage of the logged-in browser
+    loginUrl: 'https://www.hemkop.se/login',
+    customerUrl: 'https://www.hemkop.se/axfood/rest/customer',
+    loginTimeout: 300000 // How long to wait for the login in the browser window
+  },
+  
   // Browser settings
   browser: {
     headless: true,
@@ -15,7 +40,11 @@ export const config = {
     searchBar: '[data-testid="product-search"]',
     productTitle: '[data-testid="product-title"]',
     productContainer: '[data-testid="product-container"]',
-    buyButton: '[data-testid="button"]'
+    buyButton: '[data-testid="button"]',
+    quantityInput: 'input[data-testid="quantity-input"], input[aria-label*="antal" i]',
+    plusButton: 'button[data-testid="plus-button"], button[aria-label="Öka antal"]',
+    minusButton: 'button[data-testid="minus-button"], button[aria-label="Minska antal"]',
+    outOfStock: '[data-testid="out-of-stock"], :text-matches("slut i lager|tillfälligt slut|ej i lager", "i")'
   },
   
   // Search parameters
@@ -32,6 +61,17 @@ export const config = {
     "3 burkar krossade tomater"
   ],
   
+  // Product selection settings
+  selection: {
+    minScore: 0.5, // Matches scoring lower (0-1) are left for a manual decision instead of added to the cart
+    unresolvedCandidates: 3 // Candidates listed for each unresolved item
+  },
+  
+  // Reformulated searches when the results are empty or unrelated
+  searchRetry: {
+    maxReformulations: 4 // Rule-based rewrites tried per item, LLM suggestions come on top
+  },
+  
   // Recipe parser settings
   recipeParser: {
     timeout: 30000,
@@ -41,22 +81,95 @@ export const config = {
       'koket.se',
       'recepten.se',
       'tasteline.com'
-    ],
-    excludeIngredients: [
+    ]
+  },
+  
+  // Pantry settings
+  pantry: {
+    path: 'pantry.json',
+    // Staples assumed to be at home until the pantry file is first edited
+    defaultItems: [
       'salt',
       'peppar',
+      'svartpeppar',
+      'vitpeppar',
       'vatten',
       'olja',
+      'olivolja',
+      'rapsolja',
       'smör'
     ]
   },
   
+  // Pricing
+  pricing: {
+    isMember: false // Use member-only prices and offers (Hemköp Klubb)
+  },
+  
+  // Next-best products to add when the chosen one can't be
+  substitution: {
+    maxSubstitutes: 2 // Substitutes planned per basket line
+  },
+  
+  // Basket optimizer, used with --strategy or --budget
+  optimizer: {
+    balancedMinSaving: 0.2 // The balanced strategy only switches when the compare price drops by this fraction
+  },
+  
+  // Loose-weight products priced per kg
+  looseWeight: {
+    kgStep: 0.1, // Weights are ordered in steps of this many kg
+    defaultKg: 0.5 // Ordered when the recipe gives no amount
+  },
+  
+  // Dry-run settings
+  dryRun: {
+    planPath: 'basket-plan.json' // Where the proposed basket is saved for --apply
+  },
+  
+  // Search terms the LLM derived from ingredient names, keyed by model
+  searchTermCache: {
+    path: 'search-term-cache.json'
+  },
+  
+  // Product page details, read with --enrich
+  enrichment: {
+    enabled: false, // Always read the product pages, without --enrich
+    topCandidates: 5, // Search results per item whose product pages are read
+    cachePath: 'product-details-cache.json',
+    maxAgeDays: 30 // Product pages are read again after this many days
+  },
+  
+  // Dietary and brand constraint profiles, picked with --profile
+  constraints: {
+    path: 'constraint-profiles.json',
+    defaultProfile: 'default' // Applied when no --profile is given, if the file has it
+  },
+  
+  // Remembered product choices, keyed by search term
+  preferences: {
+    path: 'product-preferences.json'
+  },
+  
+  // LLM settings shared by all providers
+  llm: {
+    provider: 'ollama', // 'ollama', 'openai' (any OpenAI-compatible server) or 'rule-based' (no LLM)
+    temperature: 0,
+    systemPrompt: 'You are a shopping assistant.',
+    maxAttempts: 3 // Requests per choice before giving up on an invalid answer
+  },
+  
   // Ollama settings
   ollama: {
     url: 'http://localhost:11434',
-    model: 'llama3.2',
-    temperature: 0,
-    systemPrompt: 'You are a shopping assistant.'
+    model: 'llama3.2'
+  },
+  
+  // OpenAI-compatible server settings (llama.cpp, vLLM, LM Studio, ...)
+  openai: {
+    url: 'http://localhost:8080/v1',
+    model: 'local-model',
+    apiKey: process.env.OPENAI_API_KEY || ''
   },
   
   // Timeout settings (in milliseconds)
@@ -0,0 +1,268 @@
+import * as fs from 'fs';
+import { config } from './config';
+import { Diet, Product, ProductConstraints } from './types';
+import { logger } from './logger';
+import { toWords } from './words';
+
+type ProfileFile = Record<string, ProductConstraints>;
+
+/**
+ * Words in product titles that give an allergen away. A title word matches when it
+ * is or ends with one of them, so "mellanmjölk" contains milk.
+ */
+const ALLERGEN_WORDS: Record<string, string[]> = {
+  'laktos': ['mjölk', 'grädde', 'gräddfil', 'ost', 'smör', 'yoghurt', 'fil', 'filmjölk', 'mjölkdryck', 'kvarg', 'keso', 'fraiche', 'glass', 'vassle'],
+  'mjölk': ['mjölk', 'grädde', 'gräddfil', 'ost', 'smör', 'yoghurt', 'fil', 'filmjölk', 'mjölkdryck', 'kvarg', 'keso', 'fraiche', 'glass', 'vassle'],
+  'gluten': ['vete', 'vetemjöl', 'dinkel', 'bröd', 'pasta', 'spaghetti', 'makaroner', 'råg', 'korn', 'couscous', 'bulgur', 'knäckebröd', 'ströbröd'],
+  'nötter': ['nöt', 'nötter', 'mandel', 'mandlar', 'hasselnötter', 'cashewnötter', 'valnötter', 'pistagenötter', 'pekannötter'],
+  'jordnötter': ['jordnöt', 'jordnötter', 'jordnötssmör'],
+  'ägg': ['ägg', 'majonnäs'],
+  'fisk': ['fisk', 'lax', 'torsk', 'sej', 'tonfisk', 'sill', 'makrill', 'ansjovis'],
+  'skaldjur': ['räkor', 'kräftor', 'hummer', 'krabba', 'musslor'],
+  'soja': ['soja', 'sojasås', 'tofu', 'edamame']
+};
+
+/**
+ * Title word parts that mark a product as free from an allergen
+ */
+const ALLERGEN_FREE_WORDS: Record<string, string[]> = {
+  'laktos': ['laktosfri', 'havre', 'vegansk', 'oatly'],
+  'mjölk': ['mjölkfri', 'havre', 'vegansk', 'oatly'],
+  'gluten': ['glutenfri']
+};
+
+/**
+ * Title words for foods each diet excludes
+ */
+const DIET_WORDS: Record<Diet, string[]> = {
+  vegetarian: [
+    'kött', 'färs', 'kyckling', 'kycklingfilé', 'fläsk', 'bacon', 'skinka', 'korv', 'biff', 'entrecote', 'oxfilé',
+    'kalkon', 'lamm', 'salami', 'chorizo', 'pancetta', 'prosciutto', 'gelatin',
+    ...ALLERGEN_WORDS['fisk'], ...ALLERGEN_WORDS['skaldjur']
+  ],
+  vegan: []
+};
+DIET_WORDS.vegan = [...DIET_WORDS.vegetarian, ...ALLERGEN_WORDS['laktos'], ...ALLERGEN_WORDS['ägg'], 'honung'];
+
+/**
+ * Title word parts for plant-based alternatives, which a diet never excludes ("vegofärs")
+ */
+const PLANT_BASED_WORDS = ['vego', 'vegetarisk', 'vegansk', 'växtbaserad', 'quorn', 'oumph', 'anamma'];
+
+/**
+ * Compound parts that make the rest of the word plant-based when they come first
+ * ("sojafärs", "havrebiff"). Elsewhere in a title they are only flavouring, as in
+ * "Kycklingfilé Sojamarinerad".
+ */
+const PLANT_BASED_PREFIXES = [...PLANT_BASED_WORDS, 'soja', 'havre'];
+
+/**
+ * Other names the site and product titles use for a label
+ */
+const LABEL_ALIASES: Record<string, string[]> = {
+  'ekologisk': ['ekologisk', 'ekologiska', 'ekologiskt', 'eko', 'ecological', 'organic', 'eu_organic'],
+  'krav': ['krav'],
+  'svenskt': ['svenskt', 'svensk', 'svenska', 'swedish_flag', 'från_sverige'],
+  'svenskt kött': ['svenskt_kott', 'svenskt_kött', 'svensktkott'],
+  'nyckelhålet': ['nyckelhålet', 'keyhole'],
+  'fairtrade': ['fairtrade']
+};
+
+/**
+ * Check whether any title word is or ends with one of the given words
+ */
+function mentions(words: string[], candidates: string[]): boolean {
+  return words.some(word => candidates.some(candidate => word === candidate || (candidate.length >= 3 && word.endsWith(candidate))));
+}
+
+/**
+ * Check whether any title word contains one of the given words, e.g. "vego" in "vegofärs"
+ */
+function includesAny(words: string[], candidates: string[]): boolean {
+  return words.some(word => candidates.some(candidate => word.includes(candidate)));
+}
+
+/**
+ * Check whether a product carries a label, from the site's labels or its title
+ */
+function hasLabel(product: Product, label: string): boolean {
+  const aliases = LABEL_ALIASES[label.toLowerCase()] || [label.toLowerCase()];
+  const labels = (product.labels || []).map(productLabel => productLabel.toLowerCase());
+  return labels.some(productLabel => aliases.includes(productLabel)) || toWords(product.title).some(word => aliases.includes(word));
+}
+
+/**
+ * Check whether a product's brand is in a list of brands
+ */
+function hasBrand(product: Product, brands: string[]): boolean {
+  const text = `${product.brand || ''} ${product.title}`.toLowerCase();
+  return brands.some(brand => text.includes(brand.toLowerCase()));
+}
+
+/**
+ * Check whether a product may contain an allergen, from the allergens on its
+ * product page when read and otherwise from its title
+ */
+function containsAllergen(product: Product, allergen: string): boolean {
+  const words = toWords(product.title);
+  const key = allergen.toLowerCase();
+  if (includesAny(words, ALLERGEN_FREE_WORDS[key] || [])) {
+    return false;
+  }
+
+  // Allergen statements name the source, such as milk for lactose or wheat flour for gluten
+  const allergenNames = [key, ...(ALLERGEN_WORDS[key] || [])];
+  if (product.allergens?.some(productAllergen => allergenNames.some(name => productAllergen.includes(name)))) {
+    return true;
+  }
+  return mentions(words, ALLERGEN_WORDS[key] || [key]);
+}
+
+/**
+ * Find the first constraint a product breaks
+ * @param product The product
+ * @param constraints The active constraints
+ * @returns A description of the broken constraint, e.g. "contains laktos", or undefined if the product is allowed
+ */
+export function findViolation(product: Product, constraints: ProductConstraints): string | undefined {
+  if (constraints.brandDeny?.length && hasBrand(product, constraints.brandDeny)) {
+    return 'denied brand';
+  }
+  if (constraints.brandAllow?.length && !hasBrand(product, constraints.brandAllow)) {
+    return 'brand not allowed';
+  }
+
+  const allergen = (constraints.allergens || []).find(candidate => containsAllergen(product, candidate));
+  if (allergen) {
+    return `contains ${allergen}`;
+  }
+
+  if (constraints.diet) {
+    const titleWords = toWords(product.title);
+    const words = [...titleWords, ...toWords(product.ingredients || '')]
+      .filter(word => !PLANT_BASED_PREFIXES.some(prefix => word.startsWith(prefix)));
+    if (!includesAny(titleWords, PLANT_BASED_WORDS) && mentions(words, DIET_WORDS[constraints.diet])) {
+      return `not ${constraints.diet}`;
+    }
+  }
+
+  if (constraints.requiredLabels?.length && !constraints.requiredLabels.some(label => hasLabel(product, label))) {
+    return `not ${constraints.requiredLabels.join('/')}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * The outcome of applying the constraints to a list of products
+ */
+export interface ConstraintFilterResult {
+  allowed: Product[];
+  violations: Record<string, number>; // How many products broke each constraint
+}
+
+/**
+ * Remove the products that break any of the constraints
+ * @param products The candidate products
+ * @param constraints The active constraints
+ * @returns The allowed products and what the others broke
+ */
+export function filterProducts(products: Product[], constraints: ProductConstraints): ConstraintFilterResult {
+  const allowed: Product[] = [];
+  const violations: Record<string, number> = {};
+
+  products.forEach(product => {
+    const violation = findViolation(product, constraints);
+    if (violation) {
+      logger.debug(`Excluded ${product.title}: ${violation}`);
+      violations[violation] = (violations[violation] || 0) + 1;
+    } else {
+      allowed.push(product);
+    }
+  });
+
+  return { allowed, violations };
+}
+
+/**
+ * Describe the constraint violations for a report
+ * @param violations How many products broke each constraint
+ * @returns Text such as "contains laktos (4), not ekologisk/krav (2)"
+ */
+export function formatViolations(violations: Record<string, number>): string {
+  return Object.entries(violations).map(([violation, count]) => `${violation} (${count})`).join(', ');
+}
+
+/**
+ * State the constraints as instructions for the LLM
+ * @param constraints The active constraints
+ * @returns One line per constraint, empty without constraints
+ */
+export function describeConstraints(constraints: ProductConstraints | undefined): string[] {
+  if (!constraints) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  if (constraints.allergens?.length) lines.push(`Must not contain: ${constraints.allergens.join(', ')}`);
+  if (constraints.diet) lines.push(`Must be suitable for a ${constraints.diet} diet`);
+  if (constraints.requiredLabels?.length) lines.push(`Must be labelled: ${constraints.requiredLabels.join(' or ')}`);
+  if (constraints.preferredLabels?.length) lines.push(`Prefer products labelled: ${constraints.preferredLabels.join(', ')}`);
+  if (constraints.brandAllow?.length) lines.push(`Only these brands: ${constraints.brandAllow.join(', ')}`);
+  if (constraints.brandDeny?.length) lines.push(`Never these brands: ${constraints.brandDeny.join(', ')}`);
+  return lines;
+}
+
+/**
+ * Combine several profiles, so every rule of every profile applies
+ */
+function mergeProfiles(profiles: ProductConstraints[]): ProductConstraints {
+  const union = (lists: (string[] | undefined)[]) => {
+    const values = Array.from(new Set(lists.flatMap(list => list || [])));
+    return values.length > 0 ? values : undefined;
+  };
+
+  // Vegan is the stricter diet
+  const diets = profiles.map(profile => profile.diet).filter((diet): diet is Diet => !!diet);
+  return {
+    allergens: union(profiles.map(profile => profile.allergens)),
+    diet: diets.includes('vegan') ? 'vegan' : diets[0],
+    requiredLabels: union(profiles.map(profile => profile.requiredLabels)),
+    preferredLabels: union(profiles.map(profile => profile.preferredLabels)),
+    brandAllow: union(profiles.map(profile => profile.brandAllow)),
+    brandDeny: union(profiles.map(profile => profile.brandDeny))
+  };
+}
+
+/**
+ * Load the constraint profiles to apply from the profile file
+ * @param names The profiles to apply, the default profile if empty
+ * @returns The combined constraints, or undefined if no profile applies
+ */
+export function loadConstraints(names: string[]): ProductConstraints | undefined {
+  let profiles: ProfileFile = {};
+  try {
+    if (fs.existsSync(config.constraints.path)) {
+      profiles = JSON.parse(fs.readFileSync(config.constraints.path, 'utf-8')) as ProfileFile;
+    }
+  } catch (error) {
+    logger.error(`Could not read constraint profiles from ${config.constraints.path}: ${error}`);
+  }
+
+  const wanted = names.length > 0 ? names : [config.constraints.defaultProfile];
+  const found = wanted.filter(name => {
+    if (!profiles[name]) {
+      if (names.length > 0) logger.error(`Unknown constraint profile: ${name}`);
+      return false;
+    }
+    return true;
+  });
+
+  if (found.length === 0) {
+    return undefined;
+  }
+
+  const constraints = mergeProfiles(found.map(name => profiles[name]));
+  logger.info(`Applying constraint profile(s) ${found.join(', ')}: ${describeConstraints(constraints).join('; ')}`);
+  return constraints;
+}
@@ -0,0 +1,306 @@
+import fetch from 'node-fetch';
+import { config } from './config';
+import { NutritionFacts, Price, Product, ProductDetails, SellingUnit } from './types';
+import { logger } from './logger';
+import { parsePackageSize } from './unitConversion';
+import { parseOffer, parsePrice } from './price';
+
+/**
+ * A product as returned by the hemkop.se search endpoint
+ */
+export interface HemkopSearchResult {
+  code: string;
+  name: string;
+  manufacturer?: string;
+  price?: string; // e.g. "25,90 kr"
+  priceValue?: number;
+  priceUnit?: string; // e.g. "kr/st" or "kr/kg"
+  comparePrice?: string; // e.g. "51,80 kr"
+  comparePriceUnit?: string; // e.g. "kg" or "l"
+  displayVolume?: string; // e.g. "500g"
+  image?: { url: string };
+  thumbnail?: { url: string };
+  outOfStock?: boolean;
+  online?: boolean;
+  productBasketType?: { code?: string }; // "ST" for pieces, "KG" when ordered by weight
+  averageWeight?: number; // kg per piece of loose-weight products
+  potentialPromotions?: HemkopPromotion[];
+  labels?: string[]; // e.g. "krav", "ecological", "swedish_flag"
+  [key: string]: any;
+}
+
+/**
+ * A campaign attached to a search result
+ */
+interface HemkopPromotion {
+  cartLabel?: string; // e.g. "2 för 40 kr"
+  conditionLabel?: string; // e.g. "2 för"
+  rewardLabel?: string; // e.g. "40 kr"
+  campaignType?: string; // "LOYALTY" for member-only offers
+  [key: string]: any;
+}
+
+/**
+ * The response of the hemkop.se search endpoint
+ */
+interface HemkopSearchResponse {
+  results?: HemkopSearchResult[];
+  pagination?: {
+    totalNumberOfResults?: number;
+  };
+}
+
+/**
+ * A nutrient value on a product page
+ */
+interface HemkopNutrient {
+  nutrientTypeCode?: string; // GS1 code, e.g. "FAT" or "PRO-"
+  value?: string | number;
+  measurementUnitCode?: string; // e.g. "GRM", "KJO" or "E14" for kcal
+  [key: string]: any;
+}
+
+/**
+ * A product page as returned by the hemkop.se product endpoint
+ */
+interface HemkopProductResponse {
+  code?: string;
+  name?: string;
+  manufacturer?: string;
+  brand?: string;
+  tradeItemCountryOfOrigin?: string;
+  countryOfOriginStatement?: string;
+  labels?: string[];
+  ingredients?: string;
+  allergens?: (string | { name?: string; allergenTypeCode?: string })[];
+  nutrientHeaders?: { nutrientBasisQuantity?: string; nutrientDetails?: HemkopNutrient[] }[];
+  [key: string]: any;
+}
+
+/**
+ * GS1 nutrient codes and where they go in the nutrition facts
+ */
+const NUTRIENT_CODES: Record<string, keyof NutritionFacts> = {
+  'FAT': 'fat',
+  'FASAT': 'saturatedFat',
+  'CHOAVL': 'carbohydrates',
+  'SUGAR-': 'sugars',
+  'SUGAR': 'sugars',
+  'FIBTG': 'fibre',
+  'PRO-': 'protein',
+  'SALTEQ': 'salt'
+};
+
+/**
+ * Search for products using the JSON endpoint the hemkop.se frontend calls
+ * @param searchTerm The term to search for
+ * @returns The products found, empty if the search failed
+ */
+export async function searchProducts(searchTerm: string): Promise<Product[]> {
+  const url = new URL(config.api.searchUrl);
+  url.searchParams.set('q', searchTerm);
+  url.searchParams.set('size', String(config.api.pageSize));
+  url.searchParams.set('page', '0');
+
+  logger.debug(`Searching products: ${url.toString()}`);
+
+  try {
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': config.api.userAgent
+      },
+      timeout: config.timeouts.navigation
+    });
+
+    if (!response.ok) {
+      logger.error(`Product search for "${searchTerm}" failed: HTTP ${response.status}`);
+      return [];
+    }
+
+    const data = await response.json() as HemkopSearchResponse;
+    const results = Array.isArray(data.results) ? data.results : [];
+    logger.debug(`Search for "${searchTerm}" returned ${results.length} of ${data.pagination?.totalNumberOfResults ?? results.length} products`);
+
+    return results.map(toProduct);
+  } catch (error) {
+    logger.error(`Error searching products for "${searchTerm}": ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Convert a search result into the shared Product type
+ * @param result The search result
+ * @returns The product, not yet located in the browser
+ */
+export function toProduct(result: HemkopSearchResult): Product {
+  const sellingUnit = getSellingUnit(result);
+  const pieceWeight = sellingUnit === 'kg'
+    ? (result.averageWeight ? result.averageWeight * 1000 : parsePackageSize(result.displayVolume, result.name)) || undefined
+    : undefined;
+
+  const comparePrice = result.comparePrice
+    ? `${result.comparePrice}${result.comparePriceUnit ? `/${result.comparePriceUnit}` : ''}`
+    : undefined;
+  const { parsedPrice, memberPrice, offers } = parsePrices(result);
+
+  return {
+    code: result.code,
+    title: result.name,
+    brand: result.manufacturer || undefined,
+    price: result.price,
+    comparePrice,
+    parsedPrice,
+    parsedComparePrice: parsePrice(comparePrice),
+    memberPrice,
+    offers,
+    unit: result.priceUnit,
+    sellingUnit,
+    pieceWeight,
+    orderByWeight: sellingUnit === 'kg' && (result.productBasketType?.code === 'KG' || /_KG$/i.test(result.code)),
+    displayVolume: result.displayVolume,
+    image: result.image?.url || result.thumbnail?.url,
+    labels: Array.isArray(result.labels) && result.labels.length > 0 ? result.labels : undefined,
+    inStock: result.outOfStock !== true && result.online !== false,
+    quantity: 0
+  };
+}
+
+/**
+ * Work out how a search result is sold. Loose-weight products are priced per kg
+ * and show an approximate piece weight such as "ca: 170g".
+ */
+function getSellingUnit(result: HemkopSearchResult): SellingUnit {
+  if (result.priceUnit?.toLowerCase().includes('kg') || /_KG$/i.test(result.code) || result.productBasketType?.code === 'KG') {
+    return 'kg';
+  }
+  return parsePackageSize(result.displayVolume, result.name) > 0 ? 'package' : 'piece';
+}
+
+/**
+ * Parse a search result's regular price and its campaigns. Offers open to everyone
+ * replace the regular price, member-only offers are kept apart.
+ */
+function parsePrices(result: HemkopSearchResult): { parsedPrice?: Price; memberPrice?: Price; offers?: string[] } {
+  const regularPrice = parsePrice(result.price, result.priceUnit);
+  let parsedPrice = regularPrice;
+  let memberPrice: Price | undefined;
+  const offers: string[] = [];
+
+  for (const promotion of result.potentialPromotions || []) {
+    const label = promotion.cartLabel || [promotion.conditionLabel, promotion.rewardLabel].filter(Boolean).join(' ');
+    if (label) {
+      offers.push(label);
+    }
+    const offer = parseOffer(label, regularPrice, result.priceUnit);
+    if (!offer) {
+      continue;
+    }
+
+    if (promotion.campaignType === 'LOYALTY' || offer.memberOnly) {
+      memberPrice = { ...offer, memberOnly: true };
+    } else if (!parsedPrice || offer.amount < parsedPrice.amount) {
+      parsedPrice = offer;
+    }
+  }
+
+  return { parsedPrice, memberPrice, offers: offers.length > 0 ? offers : undefined };
+}
+
+/**
+ * Fetch the details shown on a product page: brand, origin, labels, allergens,
+ * ingredients and nutrition
+ * @param code The product code
+ * @returns The details, or null if the page couldn't be read
+ */
+export async function fetchProductDetails(code: string): Promise<ProductDetails | null> {
+  const url = `${config.api.productUrl}${encodeURIComponent(code)}`;
+  logger.debug(`Fetching product details: ${url}`);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': config.api.userAgent
+      },
+      timeout: config.timeouts.navigation
+    });
+
+    if (!response.ok) {
+      logger.error(`Product details for ${code} failed: HTTP ${response.status}`);
+      return null;
+    }
+
+    return toProductDetails(await response.json() as HemkopProductResponse);
+  } catch (error) {
+    logger.error(`Error fetching product details for ${code}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Convert a product page response into product details
+ */
+function toProductDetails(data: HemkopProductResponse): ProductDetails {
+  const ingredients = data.ingredients?.replace(/<[^>]+>/g, '').trim() || undefined;
+  const labels = Array.isArray(data.labels) && data.labels.length > 0 ? data.labels : undefined;
+  const allergens = parseAllergens(data);
+
+  return {
+    brand: data.brand || data.manufacturer || undefined,
+    originCountry: data.tradeItemCountryOfOrigin || data.countryOfOriginStatement || undefined,
+    labels,
+    allergens: allergens.length > 0 ? allergens : undefined,
+    ingredients,
+    nutrition: parseNutrition(data)
+  };
+}
+
+/**
+ * Read the allergens from the page, or from the ingredient list where the
+ * allergens are marked in bold ("<strong>VETEMJÖL</strong>, socker"). Capitals
+ * alone aren't enough, labels such as "KRAV" are written that way too.
+ */
+function parseAllergens(data: HemkopProductResponse): string[] {
+  if (Array.isArray(data.allergens) && data.allergens.length > 0) {
+    return data.allergens
+      .map(allergen => typeof allergen === 'string' ? allergen : allergen.name || allergen.allergenTypeCode || '')
+      .map(allergen => allergen.toLowerCase().trim())
+      .filter(allergen => allergen.length > 0);
+  }
+
+  const emphasized = Array.from((data.ingredients || '').matchAll(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi))
+    .map(match => match[2].replace(/<[^>]+>/g, '').replace(/[^A-Za-zÅÄÖåäöÉé\s-]/g, '').trim().toLowerCase())
+    .filter(allergen => allergen.length >= 2);
+  return Array.from(new Set(emphasized));
+}
+
+/**
+ * Read the nutrition per 100 g or 100 ml from the page's nutrient table
+ */
+function parseNutrition(data: HemkopProductResponse): NutritionFacts | undefined {
+  const header = (data.nutrientHeaders || []).find(candidate => /^100([.,]0+)?\s*(GRM|MLT|g|ml)?/i.test(candidate.nutrientBasisQuantity || '100'));
+  if (!header?.nutrientDetails?.length) {
+    return undefined;
+  }
+
+  const nutrition: NutritionFacts = {};
+  header.nutrientDetails.forEach(nutrient => {
+    const value = parseFloat(String(nutrient.value ?? '').replace(',', '.'));
+    const code = nutrient.nutrientTypeCode?.toUpperCase();
+    if (isNaN(value) || !code) {
+      return;
+    }
+    if (code.startsWith('ENER')) {
+      // Energy is listed in both kJ and kcal
+      if (nutrient.measurementUnitCode === 'E14' || /kcal/i.test(nutrient.measurementUnitCode || '')) {
+        nutrition.energyKcal = value;
+      }
+    } else if (NUTRIENT_CODES[code]) {
+      nutrition[NUTRIENT_CODES[code]] = value;
+    }
+  });
+
+  return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+}
@@ -0,0 +1,139 @@
+import { IngredientUnit, ParsedIngredient } from './types';
+import { formatIngredient } from './ingredientParser';
+import { toGrams, toMillilitres } from './unitConversion';
+import { logger } from './logger';
+import { ADJECTIVES, toWords, wordStem } from './words';
+
+/**
+ * Merge identical ingredients, e.g. from several recipes, into one line each.
+ * Amounts are summed when the units match or can be converted to grams.
+ * Lines whose amounts can't be combined are kept separate.
+ * @param ingredients The parsed ingredients from all recipes
+ * @returns The merged ingredients, in order of first appearance
+ */
+export function aggregateIngredients(ingredients: ParsedIngredient[]): ParsedIngredient[] {
+  const groups = new Map<string, ParsedIngredient[]>();
+
+  for (const ingredient of ingredients) {
+    const key = ingredientKey(ingredient.name);
+    const group = groups.get(key) || [];
+    group.push(ingredient);
+    groups.set(key, group);
+  }
+
+  const aggregated: ParsedIngredient[] = [];
+  for (const group of groups.values()) {
+    if (group.length === 1) {
+      aggregated.push(group[0]);
+      continue;
+    }
+
+    const merged = mergeGroup(group);
+    logger.debug(`Merged ${group.map(i => `"${i.raw}"`).join(' + ')} -> ${merged.map(i => `"${i.raw}"`).join(', ')}`);
+    aggregated.push(...merged);
+  }
+
+  return aggregated;
+}
+
+/**
+ * Key ingredients on their words without plural, definite or adjective endings, so
+ * "1 gul lök" and "2 gula lökar" end up on one line. Descriptive words stay in the
+ * key, "krossade tomater" and "rökt lax" are different products from "tomater" and "lax".
+ */
+function ingredientKey(name: string): string {
+  return toWords(name)
+    .map(word => ADJECTIVES.find(adjective => word === adjective + 'a' || word === adjective + 'e') ?? word)
+    .map(wordStem)
+    .join(' ') || name.toLowerCase().trim();
+}
+
+/**
+ * Merge ingredients with the same name, keeping incompatible amounts apart
+ */
+function mergeGroup(group: ParsedIngredient[]): ParsedIngredient[] {
+  const result: ParsedIngredient[] = [];
+
+  for (const ingredient of group) {
+    const index = result.findIndex(existing => canMerge(existing, ingredient));
+    if (index === -1) {
+      result.push({ ...ingredient });
+    } else {
+      result[index] = mergePair(result[index], ingredient);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Pieces can be written with or without "st"
+ */
+function unitKey(ingredient: ParsedIngredient): IngredientUnit | undefined {
+  return ingredient.unit ?? (ingredient.amount !== undefined ? 'st' : undefined);
+}
+
+/**
+ * Check whether two ingredients with the same name can be combined into one line
+ */
+function canMerge(a: ParsedIngredient, b: ParsedIngredient): boolean {
+  // Without an amount there is nothing to sum, the other line already covers it
+  if (a.amount === undefined || b.amount === undefined) {
+    return true;
+  }
+
+  if (unitKey(a) === unitKey(b)) {
+    return true;
+  }
+
+  return toGrams(a.amount, a.unit, a.name) !== undefined && toGrams(b.amount, b.unit, b.name) !== undefined;
+}
+
+/**
+ * Combine two mergeable ingredients
+ */
+function mergePair(a: ParsedIngredient, b: ParsedIngredient): ParsedIngredient {
+  const notes = Array.from(new Set([a.notes, b.notes].filter((note): note is string => !!note)));
+  const base: ParsedIngredient = { raw: '', name: a.name };
+  if (notes.length > 0) base.notes = notes.join(', ');
+
+  let merged: ParsedIngredient;
+  if (a.amount === undefined || b.amount === undefined) {
+    // Keep whichever line carries an amount
+    const withAmount = a.amount !== undefined ? a : b;
+    merged = { ...withAmount, ...base };
+  } else if (unitKey(a) === unitKey(b)) {
+    merged = { ...base, amount: a.amount + b.amount };
+    if (a.unit) merged.unit = a.unit;
+    if (a.amountMax !== undefined || b.amountMax !== undefined) {
+      merged.amountMax = (a.amountMax ?? a.amount) + (b.amountMax ?? b.amount);
+    }
+  } else if (toMillilitres(a.amount, a.unit) !== undefined && toMillilitres(b.amount, b.unit) !== undefined) {
+    // Different volume units, sum in decilitres
+    const toDl = (amount: number, unit?: IngredientUnit) => toMillilitres(amount, unit)! / 100;
+    merged = { ...base, amount: roundAmount(toDl(a.amount, a.unit) + toDl(b.amount, b.unit)), unit: 'dl' };
+    if (a.amountMax !== undefined || b.amountMax !== undefined) {
+      merged.amountMax = roundAmount(toDl(a.amountMax ?? a.amount, a.unit) + toDl(b.amountMax ?? b.amount, b.unit));
+    }
+  } else {
+    // Different units, sum the converted weights
+    const gramsA = toGrams(a.amount, a.unit, a.name)!;
+    const gramsB = toGrams(b.amount, b.unit, b.name)!;
+    merged = { ...base, amount: Math.round(gramsA + gramsB), unit: 'g' };
+    if (a.amountMax !== undefined || b.amountMax !== undefined) {
+      const maxA = toGrams(a.amountMax ?? a.amount, a.unit, a.name)!;
+      const maxB = toGrams(b.amountMax ?? b.amount, b.unit, b.name)!;
+      merged.amountMax = Math.round(maxA + maxB);
+    }
+  }
+
+  merged.raw = formatIngredient(merged);
+  return merged;
+}
+
+/**
+ * Round a merged amount to two decimals
+ */
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
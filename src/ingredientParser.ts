@@ -0,0 +1,252 @@
+import { IngredientUnit, ParsedIngredient } from './types';
+
+/**
+ * Unit spellings found in Swedish recipes, mapped to the normalized unit
+ */
+const UNIT_ALIASES: Record<string, IngredientUnit> = {
+  'krm': 'krm',
+  'kryddmått': 'krm',
+  'tsk': 'tsk',
+  'tesked': 'tsk',
+  'teskedar': 'tsk',
+  'msk': 'msk',
+  'matsked': 'msk',
+  'matskedar': 'msk',
+  'ml': 'ml',
+  'milliliter': 'ml',
+  'cl': 'cl',
+  'centiliter': 'cl',
+  'dl': 'dl',
+  'deciliter': 'dl',
+  'l': 'l',
+  'liter': 'l',
+  'g': 'g',
+  'gr': 'g',
+  'gram': 'g',
+  'kg': 'kg',
+  'kilo': 'kg',
+  'kilogram': 'kg',
+  'st': 'st',
+  'styck': 'st',
+  'stycken': 'st',
+  'burk': 'burk',
+  'burkar': 'burk',
+  'paket': 'paket',
+  'pkt': 'paket',
+  'förp': 'paket',
+  'förpackning': 'paket',
+  'förpackningar': 'paket',
+  'klyfta': 'klyfta',
+  'klyftor': 'klyfta',
+  'nypa': 'nypa',
+  'nypor': 'nypa'
+};
+
+/**
+ * Unicode vulgar fractions used in recipe amounts
+ */
+const FRACTIONS: Record<string, number> = {
+  '½': 0.5,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 0.25,
+  '¾': 0.75,
+  '⅛': 0.125
+};
+
+/**
+ * Swedish number words that can replace a numeric amount
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  'en': 1,
+  'ett': 1,
+  'halv': 0.5,
+  'halvt': 0.5,
+  'två': 2,
+  'tre': 3,
+  'fyra': 4,
+  'fem': 5,
+  'sex': 6,
+  'sju': 7,
+  'åtta': 8,
+  'nio': 9,
+  'tio': 10
+};
+
+/**
+ * Preparation words that describe how to treat an ingredient rather than what to buy
+ */
+const PREPARATION_WORDS = [
+  'finhackad', 'finhackade', 'hackad', 'hackade', 'grovhackad', 'grovhackade',
+  'riven', 'rivet', 'rivna', 'finriven', 'finrivet', 'finrivna',
+  'skivad', 'skivade', 'tärnad', 'tärnade', 'strimlad', 'strimlade',
+  'pressad', 'pressade', 'smält', 'smälta', 'rumsvarm', 'rumsvarmt', 'rumsvarma',
+  'kokt', 'kokta', 'skalad', 'skalade', 'urkärnad', 'urkärnade', 'mosad', 'mosade'
+];
+
+const FRACTION_CHARS = Object.keys(FRACTIONS).join('');
+
+// A single number: "2", "2,5", "1/2", "1 1/2", "1½" or "½"
+const NUMBER_PATTERN = `(?:\\d+\\/\\d+|\\d+(?:[.,]\\d+)?(?:\\s*[${FRACTION_CHARS}]|\\s+\\d+\\/\\d+)?|[${FRACTION_CHARS}])`;
+
+// An amount, optionally a range: "2-3", "2–3", "2 à 3"
+const AMOUNT_REGEX = new RegExp(`^(?:ca\\.?\\s*)?(${NUMBER_PATTERN})(?:\\s*(?:-|–|à|till)\\s*(${NUMBER_PATTERN}))?\\s*`, 'i');
+
+/**
+ * Parse an ingredient line into amount, unit, name and notes
+ * @param text The ingredient text (e.g. "2 dl vispgrädde")
+ * @returns The parsed ingredient
+ */
+export function parseIngredient(text: string): ParsedIngredient {
+  const raw = text.replace(/\s+/g, ' ').trim();
+  let rest = raw;
+  const notes: string[] = [];
+
+  // Parenthesised remarks and anything after the first comma are preparation notes
+  rest = rest.replace(/\(([^)]*)\)/g, (_match, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return ' ';
+  }).replace(/\s+/g, ' ').trim();
+
+  // Decimal commas ("2,5 dl") are not separators
+  const commaIndex = rest.search(/(?<!\d),|,(?!\d)/);
+  if (commaIndex !== -1) {
+    const note = rest.slice(commaIndex + 1).trim();
+    if (note) notes.unshift(note);
+    rest = rest.slice(0, commaIndex).trim();
+  }
+
+  // Amount
+  let amount: number | undefined;
+  let amountMax: number | undefined;
+  const amountMatch = rest.match(AMOUNT_REGEX);
+  if (amountMatch) {
+    amount = parseNumber(amountMatch[1]);
+    amountMax = amountMatch[2] ? parseNumber(amountMatch[2]) : undefined;
+    rest = rest.slice(amountMatch[0].length);
+  } else {
+    const wordMatch = rest.match(/^(?:ca\.?\s*)?(en halv|ett halvt|\S+)\s+/i);
+    const word = wordMatch?.[1].toLowerCase();
+    if (word && (word === 'en halv' || word === 'ett halvt' || NUMBER_WORDS[word] !== undefined)) {
+      amount = word.includes('halv') ? 0.5 : NUMBER_WORDS[word];
+      rest = rest.slice(wordMatch![0].length);
+    }
+  }
+
+  // Unit, either separated by whitespace or glued to the amount ("500g")
+  let unit: IngredientUnit | undefined;
+  const unitMatch = rest.match(/^([a-zåäö]+)\.?(?:\s+|$)/i);
+  if (unitMatch && UNIT_ALIASES[unitMatch[1].toLowerCase()] && rest.slice(unitMatch[0].length).trim()) {
+    unit = UNIT_ALIASES[unitMatch[1].toLowerCase()];
+    rest = rest.slice(unitMatch[0].length);
+  }
+
+  // Leading or trailing preparation words ("finhackad lök", "lök finhackad")
+  const words = rest.trim().split(' ').filter(word => word.length > 0);
+  const prepWords: string[] = [];
+  while (words.length > 1 && PREPARATION_WORDS.includes(words[0].toLowerCase())) {
+    prepWords.push(words.shift()!);
+  }
+  while (words.length > 1 && PREPARATION_WORDS.includes(words[words.length - 1].toLowerCase())) {
+    prepWords.push(words.pop()!);
+  }
+  if (prepWords.length > 0) {
+    notes.unshift(prepWords.join(' ').toLowerCase());
+  }
+
+  const parsed: ParsedIngredient = {
+    raw,
+    name: words.join(' ').toLowerCase() || raw.toLowerCase()
+  };
+  if (amount !== undefined && !isNaN(amount)) parsed.amount = amount;
+  if (amountMax !== undefined && !isNaN(amountMax)) parsed.amountMax = amountMax;
+  if (unit) parsed.unit = unit;
+  if (notes.length > 0) parsed.notes = notes.join(', ');
+
+  return parsed;
+}
+
+/**
+ * Parse a single numeric amount including fractions
+ */
+function parseNumber(text: string): number {
+  const value = text.trim();
+
+  // Mixed number with a slash fraction: "1 1/2"
+  const mixedMatch = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixedMatch) {
+    return parseInt(mixedMatch[1], 10) + parseInt(mixedMatch[2], 10) / parseInt(mixedMatch[3], 10);
+  }
+
+  // Plain slash fraction: "1/2"
+  const fractionMatch = value.match(/^(\d+)\/(\d+)$/);
+  if (fractionMatch) {
+    return parseInt(fractionMatch[1], 10) / parseInt(fractionMatch[2], 10);
+  }
+
+  // Number with an optional unicode fraction: "1½", "½"
+  const unicodeFraction = value.slice(-1);
+  if (FRACTIONS[unicodeFraction] !== undefined) {
+    const whole = value.slice(0, -1).trim();
+    return (whole ? parseFloat(whole.replace(',', '.')) : 0) + FRACTIONS[unicodeFraction];
+  }
+
+  return parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Get the amount to plan for, using the upper bound of a range
+ * @param ingredient The parsed ingredient
+ * @returns The amount, or undefined if the ingredient has none
+ */
+export function getRequiredAmount(ingredient: ParsedIngredient): number | undefined {
+  return ingredient.amountMax ?? ingredient.amount;
+}
+
+/**
+ * Format a parsed ingredient back into a readable line
+ * @param ingredient The parsed ingredient
+ * @returns Text such as "2-3 dl vispgrädde, kall"
+ */
+export function formatIngredient(ingredient: ParsedIngredient): string {
+  const parts: string[] = [];
+
+  if (ingredient.amount !== undefined) {
+    const amount = formatNumber(ingredient.amount);
+    parts.push(ingredient.amountMax !== undefined ? `${amount}-${formatNumber(ingredient.amountMax)}` : amount);
+  }
+  if (ingredient.unit) {
+    parts.push(ingredient.unit);
+  }
+  parts.push(ingredient.name);
+
+  const text = parts.join(' ');
+  return ingredient.notes ? `${text}, ${ingredient.notes}` : text;
+}
+
+/**
+ * Format a number with at most two decimals
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Scale the amount of an ingredient, e.g. to cook for more servings
+ * @param ingredient The parsed ingredient
+ * @param factor The scale factor
+ * @returns A scaled copy, or the ingredient itself if it has no amount
+ */
+export function scaleIngredient(ingredient: ParsedIngredient, factor: number): ParsedIngredient {
+  if (ingredient.amount === undefined || factor === 1) {
+    return ingredient;
+  }
+
+  const scaled: ParsedIngredient = { ...ingredient, amount: ingredient.amount * factor };
+  if (ingredient.amountMax !== undefined) {
+    scaled.amountMax = ingredient.amountMax * factor;
+  }
+  scaled.raw = formatIngredient(scaled);
+
+  return scaled;
+}
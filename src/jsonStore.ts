@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import { logger } from './logger';
+
+/**
+ * A JSON file holding a record, read on first use and written back on save
+ */
+export class JsonStore<T extends object> {
+  private data: T | null = null; // Loaded lazily on first use
+
+  /**
+   * @param path The file path
+   * @param description What the file holds, for log messages (e.g. "product preferences")
+   */
+  constructor(private readonly path: string, private readonly description: string) {}
+
+  /**
+   * Get the contents, starting empty if the file doesn't exist yet
+   * @returns The contents, shared for the whole run
+   */
+  load(): T {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      if (fs.existsSync(this.path)) {
+        this.data = JSON.parse(fs.readFileSync(this.path, 'utf-8')) as T;
+        logger.debug(`Loaded ${this.description} from ${this.path}`);
+        return this.data;
+      }
+    } catch (error) {
+      logger.error(`Could not read ${this.description} from ${this.path}: ${error}`);
+    }
+
+    this.data = {} as T;
+    return this.data;
+  }
+
+  /**
+   * Write the contents back to the file
+   * @returns Whether the file was written
+   */
+  save(): boolean {
+    try {
+      fs.writeFileSync(this.path, JSON.stringify(this.load(), null, 2), 'utf-8');
+      return true;
+    } catch (error) {
+      logger.error(`Could not save ${this.description} to ${this.path}: ${error}`);
+      return false;
+    }
+  }
+}
@@ -1,20 +1,22 @@
 import { chromium } from 'playwright';
 import { logger } from './logger';
 import { config } from './config';
+import { Recipe } from './types';
 
 interface RecipeJsonLd {
   '@type': string;
   name?: string;
   recipeIngredient?: string[];
+  recipeYield?: string | number | (string | number)[];
   [key: string]: any;
 }
 
 /**
- * Extract ingredients from a recipe URL using JSON-LD schema
+ * Extract ingredients and servings from a recipe URL using JSON-LD schema
  * @param url The recipe URL to extract ingredients from
- * @returns Array of ingredient strings
+ * @returns The recipe, with no ingredients if extraction failed
  */
-export async function extractIngredientsFromJsonLd(url: string): Promise<string[]> {
+export async function extractRecipeFromJsonLd(url: string): Promise<Recipe> {
   logger.info(`Extracting ingredients using JSON-LD from URL: ${url}`);
   
   let browser = null;
@@ -43,7 +45,7 @@ export async function extractIngredientsFromJsonLd(url: string): Promise<string[
       
       if (jsonLdData.length === 0) {
         logger.error('No JSON-LD data found on the page');
-        return [];
+        return { ingredients: [] };
       }
       
       logger.debug(`Found ${jsonLdData.length} JSON-LD data blocks`);
@@ -53,7 +55,7 @@ export async function extractIngredientsFromJsonLd(url: string): Promise<string[
       
       if (!recipeData) {
         logger.error('No Recipe type found in JSON-LD data');
-        return [];
+        return { ingredients: [] };
       }
       
       // Extract ingredients from recipe data
@@ -61,20 +63,24 @@ export async function extractIngredientsFromJsonLd(url: string): Promise<string[
       
       if (ingredients.length === 0) {
         logger.error('No ingredients found in recipe JSON-LD data');
-        return [];
+        return { ingredients: [] };
       }
       
-      // Filter out empty ingredients and common exclusions
+      // Filter out empty ingredients, pantry items are handled later
       logger.debug('Filtering ingredients...');
-      const filteredIngredients = ingredients
-        .filter(i => i && i.length > 0)
-        .filter(i => !shouldExcludeIngredient(i));
+      const filteredIngredients = ingredients.filter(i => i && i.length > 0);
       
       // Log the extracted ingredients
       logger.info(`Extracted ${filteredIngredients.length} ingredients from JSON-LD data:`);
       filteredIngredients.forEach(ingredient => logger.info(`  - ${ingredient}`));
       
-      return filteredIngredients;
+      // Read the number of servings so the recipe can be scaled
+      const servings = parseRecipeYield(recipeData.recipeYield);
+      if (servings) {
+        logger.debug(`Recipe yields ${servings} servings`);
+      }
+      
+      return { name: recipeData.name, ingredients: filteredIngredients, servings };
     } finally {
       // Always close the browser
       logger.debug('Closing browser...');
@@ -91,7 +97,7 @@ export async function extractIngredientsFromJsonLd(url: string): Promise<string[
         logger.error(`Error closing browser: ${closeError}`);
       }
     }
-    return [];
+    return { ingredients: [] };
   }
 }
 
@@ -167,14 +173,25 @@ function extractIngredients(recipeData: RecipeJsonLd): string[] {
 }
 
 /**
- * Determine if an ingredient should be excluded
+ * Parse recipeYield into a number of servings.
+ * Handles numbers, text like "4 portioner" or "4-6 portioner", and arrays of either.
  */
-function shouldExcludeIngredient(ingredient: string): boolean {
-  // Convert to lowercase for case-insensitive comparison
-  const lowerIngredient = ingredient.toLowerCase();
+function parseRecipeYield(recipeYield: RecipeJsonLd['recipeYield']): number | undefined {
+  const values = Array.isArray(recipeYield) ? recipeYield : [recipeYield];
   
-  // Check if the ingredient is in the exclusion list
-  return config.recipeParser.excludeIngredients.some((excluded: string) => 
-    lowerIngredient.includes(excluded.toLowerCase())
-  );
-} 
\ No newline at end of file
+  for (const value of values) {
+    if (typeof value === 'number' && value > 0) {
+      return value;
+    }
+    
+    if (typeof value === 'string') {
+      // Use the lower bound of ranges like "4-6 portioner"
+      const match = value.match(/(\d+)/);
+      if (match && parseInt(match[1], 10) > 0) {
+        return parseInt(match[1], 10);
+      }
+    }
+  }
+  
+  return undefined;
+}
@@ -1,225 +1,178 @@
-import { Ollama } from 'ollama';
 import { config } from './config';
-import { Product } from './types';
+import { ParsedIngredient, Product, ProductConstraints, ProductSelection } from './types';
 import { logger } from './logger';
+import { getIngredientWeightInGrams, isPackageCount, parsePackageSize } from './unitConversion';
+import { getOptionValue } from './cli';
+import { cacheSearchTerms, getCachedSearchTerm } from './searchTermCache';
+import { LlmProvider } from './llmProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAiProvider } from './openAiProvider';
+import { RuleBasedProvider, isSameKind, titleMatchScore } from './ruleBasedProvider';
+import { getEffectiveComparePrice } from './price';
+
+// Created on first use
+let provider: LlmProvider | null = null;
+
+/**
+ * Get the configured LLM provider. The --provider option overrides config.llm.provider.
+ * @returns The provider, shared for the whole run
+ */
+export function getLlmProvider(): LlmProvider {
+  if (provider) {
+    return provider;
+  }
+  
+  const name = getOptionValue(['--provider']) || config.llm.provider;
+  switch (name) {
+    case 'ollama':
+      provider = new OllamaProvider();
+      break;
+    case 'openai':
+      provider = new OpenAiProvider();
+      break;
+    case 'rule-based':
+      provider = new RuleBasedProvider();
+      break;
+    default:
+      logger.error(`Unknown LLM provider "${name}", using Ollama`);
+      provider = new OllamaProvider();
+  }
+  
+  logger.debug(`Using LLM provider: ${provider.name}`);
+  return provider;
+}
 
 /**
- * Sends a request to Ollama LLM to select the best product match
+ * The outcome of a product choice
+ */
+export interface SelectionResult {
+  selection: ProductSelection | null; // Null when nothing was selected
+  reason?: string; // Why nothing was selected
+  failed?: boolean; // The provider couldn't answer, as opposed to finding nothing suitable
+}
+
+/**
+ * Asks the configured LLM provider to select the best product match
  * based on the shopping list item
+ * @param constraints Dietary and brand rules, stated to the LLM
+ * @returns The selected product, the reasoning behind the choice and a 0-1 match score,
+ * or why nothing was selected: no suitable product, or a provider failure
  */
-export async function selectBestProduct(products: Product[], shoppingListItem: string): Promise<Product | null> {
+export async function selectBestProduct(products: Product[], shoppingListItem: ParsedIngredient, constraints?: ProductConstraints): Promise<SelectionResult> {
   try {
-    logger.info(`Shopping for: ${shoppingListItem}`);
+    logger.info(`Shopping for: ${shoppingListItem.raw}`);
     logger.debug(`Asking LLM to select the best match from ${products.length} products`);
     
-    // Check if the shopping list item mentions weight requirements
-    const weightMatch = shoppingListItem.match(/(\d+\.?\d*)\s*(g|gram|kg|kilo)/i);
-    let requestedWeight = 0;
-    let requestedUnit = '';
+    // Check if the shopping list item mentions weight requirements, converting
+    // volumes and piece counts to grams. Package counts ("2 burkar") say nothing
+    // about which package size to pick, so they are left to the LLM.
+    const requestedWeight = isPackageCount(shoppingListItem) ? 0 : getIngredientWeightInGrams(shoppingListItem);
     
-    if (weightMatch) {
-      requestedWeight = parseFloat(weightMatch[1]);
-      requestedUnit = weightMatch[2].toLowerCase();
-      logger.debug(`Detected weight requirement: ${requestedWeight}${requestedUnit}`);
+    if (requestedWeight > 0) {
+      logger.debug(`Detected weight requirement: ${requestedWeight}g`);
       
-      // Convert to grams for easier comparison
-      if (requestedUnit === 'kg' || requestedUnit === 'kilo') {
-        requestedWeight *= 1000;
-        logger.debug(`Converted to ${requestedWeight}g for comparison`);
-      }
-      
-      // Try to find the best match based on weight without using LLM
-      const productWeights = products.map(product => {
-        // Extract weight from display volume
-        const weightText = product.displayVolume || '';
-        const productWeightMatch = weightText.match(/(\d+)\s*(g|kg)/i);
-        
-        if (productWeightMatch) {
-          let weight = parseInt(productWeightMatch[1], 10);
-          const unit = productWeightMatch[2].toLowerCase();
-          
-          // Convert to grams for comparison
-          if (unit === 'kg') {
-            weight *= 1000;
-          }
-          
-          return { product, weight };
-        }
-        
-        return { product, weight: 0 };
-      });
+      // Try to find the best match based on weight without using LLM, but only among
+      // products that are clearly the right kind and have a known size
+      // Loose-weight products can be bought in exactly the amount needed
+      const productWeights = products
+        .filter(product => isSameKind(shoppingListItem.name, product.title))
+        .map(product => ({
+          product,
+          weight: product.sellingUnit === 'kg' ? requestedWeight : parsePackageSize(product.displayVolume, product.title)
+        }))
+        .filter(p => p.weight > 0);
       
       // Find product with weight closest to requested weight but not less than it
       // If all are less, pick the largest
       const validProducts = productWeights.filter(p => p.weight >= requestedWeight);
       
-      if (validProducts.length > 0) {
-        // Sort by closest to requested weight
-        validProducts.sort((a, b) => a.weight - b.weight);
+      if (productWeights.length === 0) {
+        logger.debug('No product of the right kind with a known size, asking the provider');
+      } else if (validProducts.length > 0) {
+        // Sort by closest to requested weight, then by the lowest compare price after offers
+        const comparePrice = (product: Product) => getEffectiveComparePrice(product)?.amount ?? Number.POSITIVE_INFINITY;
+        validProducts.sort((a, b) => a.weight - b.weight || comparePrice(a.product) - comparePrice(b.product));
         const bestMatch = validProducts[0].product;
-        logger.decision(`Selected ${bestMatch.title} (${validProducts[0].weight}g) to meet weight requirement of ${requestedWeight}g`);
-        return bestMatch;
+        const reasoning = `Selected ${bestMatch.title} (${validProducts[0].weight}g) to meet weight requirement of ${requestedWeight}g`;
+        logger.decision(reasoning);
+        return { selection: { product: bestMatch, reasoning, score: titleMatchScore(shoppingListItem.name, bestMatch.title) } };
       } else {
         // If no product >= requested weight, get the largest one
         productWeights.sort((a, b) => b.weight - a.weight);
         const bestMatch = productWeights[0].product;
-        logger.decision(`No product meets the weight requirement of ${requestedWeight}g. Using largest available: ${bestMatch.title} (${productWeights[0].weight}g)`);
-        return bestMatch;
+        const reasoning = `No product meets the weight requirement of ${requestedWeight}g. Using largest available: ${bestMatch.title} (${productWeights[0].weight}g)`;
+        logger.decision(reasoning);
+        return { selection: { product: bestMatch, reasoning, score: titleMatchScore(shoppingListItem.name, bestMatch.title) } };
       }
     }
     
-    // If no weight-based selection was made, continue with LLM
-    // Create product list text including price information
-    const productListText = products.map((p, index) => {
-      const priceInfo = p.price ? `Price: ${p.price}` : 'Price: Not available';
-      const comparePriceInfo = p.comparePrice ? `Compare Price: ${p.comparePrice}` : 'Compare Price: Not available';
-      const volumeInfo = p.displayVolume ? `Volume/Weight: ${p.displayVolume}` : 'Volume/Weight: Not available';
-      return `${index + 1}. ${p.title} - ${priceInfo} - ${comparePriceInfo} - ${volumeInfo}`;
-    }).join('\n');
-    
-    // Create the Ollama client
-    const ollama = new Ollama({
-      host: config.ollama.url
-    });
-    
-    // Prepare the prompt with the shopping list item and product options
-    const prompt = `
-Shopping list item: ${shoppingListItem}
-
-Available products:
-${productListText}
-
-Based on the shopping list item, which product number is the best match? 
-Pick the product with weight closest to but not less than what's needed.
-Also consider type, quality requirements, and price in your decision.
-If weight matches, then prefer products with the lowest comparison price (jmf pris).
-
-First, explain your reasoning in detail. Consider the following factors, in order of importance:
-1. Product type match
-2. Compare price
-3. Weight/volume match with the requirement
-4. Product quality
-5. Any other relevant factors
-
-Then, in the final line, provide ONLY a single digit number representing your choice. For example: 2
-`;
-
-    logger.debug('Sending request to LLM...');
-    
-    // Make the API call to Ollama
-    const response = await ollama.chat({
-      model: config.ollama.model,
-      messages: [
-        {
-          role: 'system',
-          content: config.ollama.systemPrompt
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      options: {
-        temperature: config.ollama.temperature
-      }
-    });
-    
-    const responseText = response.message.content.trim();
-    logger.llm(`LLM reasoning:\n${responseText}`);
-    
-    // Extract the numeric choice from the end of the response
-    const lines = responseText.trim().split('\n');
-    const lastLine = lines[lines.length - 1].trim();
-    
-    // Try to find a single number on the last line (which is the direct selection)
-    let choiceMatch = lastLine.match(/^(\d+)$/);
+    // If no weight-based selection was made, ask the configured provider
+    const provider = getLlmProvider();
+    const choice = await provider.selectProduct(shoppingListItem, products, constraints);
+    logger.llm(`${provider.name} reasoning (confidence ${choice.confidence.toFixed(2)}):\n${choice.reasoning}`);
     
-    // If not found, try to find "Final choice: X" pattern
-    if (!choiceMatch) {
-      const finalChoiceMatch = responseText.match(/Final choice:\s*(\d+)/i);
-      if (finalChoiceMatch) {
-        choiceMatch = finalChoiceMatch;
-      }
+    if (choice.index === null) {
+      logger.decision(`No suitable product for "${shoppingListItem.raw}": ${choice.reasoning}`);
+      return { selection: null, reason: choice.reasoning };
     }
     
-    if (choiceMatch) {
-      const selectedIndex = parseInt(choiceMatch[1], 10) - 1; // Convert to 0-indexed
-      
-      // Validate the selected index
-      if (selectedIndex < 0 || selectedIndex >= products.length) {
-        logger.error(`LLM returned invalid product index: ${selectedIndex + 1} (out of range 1-${products.length})`);
-        return null;
-      }
+    logger.info(`LLM selected product index: ${choice.index + 1}`);
+    return { selection: { product: products[choice.index], reasoning: choice.reasoning, score: choice.confidence } };
+  } catch (error) {
+    logger.error(`Error with LLM selection: ${error}`);
+    return { selection: null, reason: error instanceof Error ? error.message : String(error), failed: true };
+  }
+}
+
+/**
+ * Convert ingredient descriptions to search terms. Terms already derived by the
+ * current model are read from the cache, the rest are sent in a single request.
+ * @param ingredients The ingredient descriptions (e.g. "äggulor")
+ * @returns One search term per ingredient (e.g. "ägg"), in the same order
+ */
+export async function normalizeIngredients(ingredients: string[]): Promise<string[]> {
+  const provider = getLlmProvider();
+  const searchTerms = ingredients.map(ingredient => getCachedSearchTerm(provider.model, ingredient));
+  const missing = Array.from(new Set(ingredients.filter((_, index) => searchTerms[index] === undefined)));
+  
+  logger.debug(`${ingredients.length - missing.length} of ${ingredients.length} search terms found in the cache`);
+  
+  if (missing.length > 0) {
+    try {
+      const normalized = await provider.normalizeIngredients(missing);
+      const newTerms: Record<string, string> = {};
+      missing.forEach((ingredient, index) => {
+        newTerms[ingredient] = normalized[index];
+      });
+      cacheSearchTerms(provider.model, newTerms);
       
-      // Check for discrepancies in reasoning
-      const reasoningText = responseText.toLowerCase();
-      if (reasoningText.includes('recommend product')) {
-        const recommendMatch = reasoningText.match(/recommend product (\d+)/i);
-        if (recommendMatch) {
-          const recommendedIndex = parseInt(recommendMatch[1], 10) - 1;
-          if (recommendedIndex !== selectedIndex) {
-            logger.error(`LLM reasoning inconsistency: Recommended product ${recommendedIndex + 1} but selected product ${selectedIndex + 1}`);
-          }
+      ingredients.forEach((ingredient, index) => {
+        if (searchTerms[index] === undefined) {
+          searchTerms[index] = newTerms[ingredient];
         }
-      }
-      
-      logger.info(`LLM selected product index: ${selectedIndex + 1}`);
-      return products[selectedIndex];
-    }
-    
-    logger.error('Failed to extract product choice from LLM response');
-    
-    // As a fallback, use the first product
-    if (products.length > 0) {
-      logger.info(`Falling back to first product: ${products[0].title}`);
-      return products[0];
+      });
+    } catch (error) {
+      logger.error(`Error processing ingredient descriptions: ${error}`);
     }
-    
-    return null;
-  } catch (error) {
-    logger.error(`Error with LLM selection: ${error}`);
-    return null;
   }
+  
+  // Fallback to using the original ingredient as search term
+  return ingredients.map((ingredient, index) => searchTerms[index] || ingredient);
 }
 
 /**
- * Process an ingredient description to extract the search term
- * @param ingredient The ingredient description (e.g. "4 äggulor")
- * @returns The normalized search term (e.g. "ägg")
+ * Ask the LLM for other searches for an ingredient
+ * @param ingredient The ingredient name
+ * @param failedSearches The searches that found nothing relevant
+ * @returns Alternative search terms, empty if the LLM had no suggestions
  */
-export async function processIngredientDescription(ingredient: string): Promise<string> {
+export async function suggestSearchTerms(ingredient: string, failedSearches: string[]): Promise<string[]> {
   try {
-    const ollama = new Ollama({
-      host: config.ollama.url
-    });
-
-    const prompt = `
-I need to search for products in a grocery store. 
-Convert this ingredient description to the simplest, most basic search term:
-
-Ingredient: "${ingredient}"
-
-For example:
-- "4 äggulor" should be "ägg"
-- "500g vetemjöl" should be "vetemjöl"
-- "en burk krossade tomater" should be "krossade tomater"
-- "2.5 kg bananer" should be "banan"
-
-Return ONLY the normalized search term as plain text, with no explanation, formatting, or additional text.
-`;
-
-    const response = await ollama.chat({
-      model: config.ollama.model,
-      messages: [{ role: 'user', content: prompt }],
-      stream: false
-    });
-
-    const searchTerm = response.message.content.trim();
-    logger.debug(`Processed ingredient "${ingredient}" -> "${searchTerm}"`);
-    return searchTerm;
+    const suggestions = await getLlmProvider().suggestSearchTerms(ingredient, failedSearches);
+    logger.debug(`LLM suggested searches for "${ingredient}": ${suggestions.join(', ') || 'none'}`);
+    return suggestions;
   } catch (error) {
-    logger.error(`Error processing ingredient description: ${error}`);
-    // Fallback to using the original ingredient as search term
-    return ingredient;
+    logger.error(`Error getting search suggestions: ${error}`);
+    return [];
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,321 @@
+import { config } from './config';
+import { ParsedIngredient, Product, ProductConstraints } from './types';
+import { logger } from './logger';
+import { describeOffer, formatPrice, getEffectiveComparePrice, getEffectivePrice } from './price';
+import { describeConstraints } from './constraints';
+
+/**
+ * A chat message sent to a language model
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Options for a single chat request
+ */
+export interface ChatOptions {
+  temperature?: number;
+  format?: Record<string, unknown>; // JSON schema the reply must follow
+}
+
+/**
+ * The product a provider picked for a shopping list item
+ */
+export interface ProductChoice {
+  index: number | null; // 0-based index into the candidates, null when none of them is suitable
+  confidence: number; // 0-1
+  reasoning: string;
+}
+
+/**
+ * Something that can make the decisions the shopper needs: picking products
+ * and turning ingredient descriptions into search terms
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string; // Identifies the model in caches
+
+  /**
+   * Pick the best product for a shopping list item
+   * @param shoppingListItem The shopping list item
+   * @param products The candidate products
+   * @param constraints Dietary and brand rules the choice must follow
+   */
+  selectProduct(shoppingListItem: ParsedIngredient, products: Product[], constraints?: ProductConstraints): Promise<ProductChoice>;
+
+  /**
+   * Convert ingredient descriptions to simple search terms
+   * @param ingredients The ingredient descriptions (e.g. "4 äggulor")
+   * @returns One search term per ingredient, in the same order
+   */
+  normalizeIngredients(ingredients: string[]): Promise<string[]>;
+
+  /**
+   * Suggest other searches for an ingredient the store found nothing relevant for
+   * @param ingredient The ingredient name
+   * @param failedSearches The searches already tried
+   * @returns Alternative search terms, best first
+   */
+  suggestSearchTerms(ingredient: string, failedSearches: string[]): Promise<string[]>;
+}
+
+/**
+ * Base class for providers backed by a chat model. Holds the prompts,
+ * subclasses only implement the HTTP call.
+ */
+export abstract class ChatLlmProvider implements LlmProvider {
+  abstract readonly name: string;
+  abstract readonly model: string;
+
+  /**
+   * Send a chat request and return the text of the reply
+   */
+  protected abstract chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+
+  async selectProduct(shoppingListItem: ParsedIngredient, products: Product[], constraints?: ProductConstraints): Promise<ProductChoice> {
+    // Create product list text including price information
+    const productListText = products.map((p, index) => {
+      const priceInfo = p.price ? `Price: ${p.price}` : 'Price: Not available';
+      const comparePriceInfo = p.comparePrice ? `Compare Price: ${p.comparePrice}` : 'Compare Price: Not available';
+      const volumeInfo = p.displayVolume ? `Volume/Weight: ${p.displayVolume}` : 'Volume/Weight: Not available';
+      const offer = describeOffer(getEffectivePrice(p));
+      const offerComparePrice = getEffectiveComparePrice(p);
+      const offerCompareInfo = offerComparePrice && p.parsedComparePrice && offerComparePrice.amount < p.parsedComparePrice.amount
+        ? `, ${formatPrice(offerComparePrice.amount)}/${offerComparePrice.unit} with the offer`
+        : '';
+      const offerInfo = offer ? ` - Offer: ${offer}${offerCompareInfo}` : '';
+      const brandInfo = p.brand ? ` - Brand: ${p.brand}` : '';
+      const labelInfo = p.labels?.length ? ` - Labels: ${p.labels.join(', ')}` : '';
+      const originInfo = p.originCountry ? ` - Origin: ${p.originCountry}` : '';
+      const allergenInfo = p.allergens?.length ? ` - Allergens: ${p.allergens.join(', ')}` : '';
+      return `${index + 1}. ${p.title} - ${priceInfo} - ${comparePriceInfo} - ${volumeInfo}${offerInfo}${brandInfo}${labelInfo}${originInfo}${allergenInfo}`;
+    }).join('\n');
+
+    // The products are already filtered, but the LLM should weigh the rules too
+    const constraintLines = describeConstraints(constraints);
+    const constraintText = constraintLines.length > 0
+      ? `\nThe household's requirements, which the chosen product must meet:\n${constraintLines.map(line => `- ${line}`).join('\n')}\n`
+      : '';
+
+    // Prepare the prompt with the shopping list item and product options
+    const prompt = `
+Shopping list item: ${shoppingListItem.raw}
+
+Available products:
+${productListText}
+${constraintText}
+Based on the shopping list item, which product number is the best match?
+Pick the product with weight closest to but not less than what's needed.
+Also consider type, quality requirements, and price in your decision.
+If weight matches, then prefer products with the lowest comparison price (jmf pris).
+
+Consider the following factors, in order of importance:
+1. Product type match
+2. Compare price, with any offer taken off
+3. Weight/volume match with the requirement
+4. Product quality
+5. Any other relevant factors
+
+If none of the products is the right kind of product, or none meets the requirements, choose 0.
+
+Answer with a JSON object only:
+{"choice": <product number, or 0 if none is suitable>, "confidence": <0 to 1>, "rationale": "<one or two sentences>"}
+`;
+
+    return this.chatJson([
+      { role: 'system', content: config.llm.systemPrompt },
+      { role: 'user', content: prompt }
+    ], productChoiceSchema(products.length), text => parseProductChoice(text, products.length));
+  }
+
+  async normalizeIngredients(ingredients: string[]): Promise<string[]> {
+    const ingredientListText = ingredients.map((ingredient, index) => `${index + 1}. ${ingredient}`).join('\n');
+
+    const prompt = `
+I need to search for products in a grocery store.
+Convert each of these ingredient descriptions to the simplest, most basic search term:
+
+${ingredientListText}
+
+For example:
+- "4 äggulor" should be "ägg"
+- "500g vetemjöl" should be "vetemjöl"
+- "en burk krossade tomater" should be "krossade tomater"
+- "2.5 kg bananer" should be "banan"
+
+Answer with a JSON object only, with exactly one search term per ingredient in the same order:
+{"searchTerms": ["<search term for 1>", "<search term for 2>", ...]}
+`;
+
+    return this.chatJson(
+      [{ role: 'user', content: prompt }],
+      searchTermsSchema(ingredients.length, ingredients.length),
+      text => parseSearchTerms(text, ingredients.length)
+    );
+  }
+
+  async suggestSearchTerms(ingredient: string, failedSearches: string[]): Promise<string[]> {
+    const prompt = `
+I'm searching for an ingredient in a Swedish grocery store, but these searches found nothing relevant:
+${failedSearches.map(search => `- "${search}"`).join('\n')}
+
+Ingredient: "${ingredient}"
+
+Suggest up to 3 other search terms the store is likely to use for this product, for example a
+different spelling ("crème fraiche" -> "creme fraiche"), a synonym or a more general product name.
+
+Answer with a JSON object only:
+{"searchTerms": ["<search term>", ...]}
+`;
+
+    const searchTerms = await this.chatJson(
+      [{ role: 'user', content: prompt }],
+      searchTermsSchema(0, 3),
+      text => parseSearchTerms(text)
+    );
+    return searchTerms.filter(term => !failedSearches.includes(term.toLowerCase()));
+  }
+
+  /**
+   * Ask for a JSON reply, feeding validation errors back to the model until the answer is usable
+   * @param messages The conversation so far
+   * @param format JSON schema the reply must follow
+   * @param parse Validates the reply, throwing on invalid answers
+   * @returns The parsed reply
+   * @throws If no valid reply came within config.llm.maxAttempts requests
+   */
+  protected async chatJson<T>(messages: ChatMessage[], format: Record<string, unknown>, parse: (text: string) => T): Promise<T> {
+    const conversation = [...messages];
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= config.llm.maxAttempts; attempt++) {
+      logger.debug(`Sending request to ${this.name} (attempt ${attempt}/${config.llm.maxAttempts})...`);
+
+      const responseText = (await this.chat(conversation, { temperature: config.llm.temperature, format })).trim();
+      logger.debug(`LLM response: ${responseText}`);
+
+      try {
+        return parse(responseText);
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        logger.error(`Invalid answer from ${this.name}: ${lastError}`);
+        conversation.push(
+          { role: 'assistant', content: responseText },
+          { role: 'user', content: `That answer is invalid: ${lastError}. Reply again with only the JSON object.` }
+        );
+      }
+    }
+
+    throw new Error(`No valid answer after ${config.llm.maxAttempts} attempts (${lastError})`);
+  }
+}
+
+/**
+ * JSON schema for a product choice among a number of candidates
+ */
+function productChoiceSchema(productCount: number): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: {
+      choice: { type: 'integer', minimum: 0, maximum: productCount },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      rationale: { type: 'string' }
+    },
+    required: ['choice', 'confidence', 'rationale']
+  };
+}
+
+/**
+ * JSON schema for a list of search terms
+ */
+function searchTermsSchema(minItems: number, maxItems: number): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: {
+      searchTerms: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems,
+        maxItems
+      }
+    },
+    required: ['searchTerms']
+  };
+}
+
+/**
+ * Read the JSON object in a model reply
+ * @throws If there is no valid JSON object
+ */
+function parseJsonObject(responseText: string): any {
+  // Some servers wrap JSON in a code block even when asked for a schema
+  const jsonText = responseText.match(/\{[\s\S]*\}/)?.[0];
+  if (!jsonText) {
+    throw new Error('no JSON object in the reply');
+  }
+
+  try {
+    return JSON.parse(jsonText);
+  } catch (error) {
+    throw new Error(`malformed JSON (${error})`);
+  }
+}
+
+/**
+ * Parse and validate a structured product choice
+ * @param responseText The model reply
+ * @param productCount The number of candidates offered
+ * @returns The choice, with a 0-based index
+ * @throws If the reply isn't a valid choice
+ */
+function parseProductChoice(responseText: string, productCount: number): ProductChoice {
+  const data = parseJsonObject(responseText);
+
+  const choice = Number(data.choice);
+  if (!Number.isInteger(choice) || choice < 0 || choice > productCount) {
+    throw new Error(`"choice" must be a whole number from 0 to ${productCount}, got ${JSON.stringify(data.choice)}`);
+  }
+
+  const confidence = Number(data.confidence);
+  if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    throw new Error(`"confidence" must be a number from 0 to 1, got ${JSON.stringify(data.confidence)}`);
+  }
+
+  if (typeof data.rationale !== 'string' || data.rationale.trim().length === 0) {
+    throw new Error('"rationale" must be a non-empty string');
+  }
+
+  return {
+    index: choice === 0 ? null : choice - 1,
+    confidence,
+    reasoning: data.rationale.trim()
+  };
+}
+
+/**
+ * Parse and validate a list of search terms
+ * @param responseText The model reply
+ * @param ingredientCount The number of ingredients sent, when one term per ingredient is expected
+ * @returns The search terms, in ingredient order
+ * @throws If the reply isn't a valid list
+ */
+function parseSearchTerms(responseText: string, ingredientCount?: number): string[] {
+  const data = parseJsonObject(responseText);
+
+  if (!Array.isArray(data.searchTerms)) {
+    throw new Error('"searchTerms" must be an array');
+  }
+  if (ingredientCount !== undefined && data.searchTerms.length !== ingredientCount) {
+    throw new Error(`"searchTerms" must have exactly ${ingredientCount} entries, got ${data.searchTerms.length}`);
+  }
+
+  const searchTerms = data.searchTerms.map((term: unknown) => typeof term === 'string' ? term.trim() : '');
+  const emptyIndex = searchTerms.findIndex((term: string) => term.length === 0);
+  if (emptyIndex >= 0) {
+    throw new Error(`search term ${emptyIndex + 1} is empty`);
+  }
+
+  return searchTerms;
+}
@@ -1,10 +1,26 @@
-import { chromium, Page } from 'playwright';
+import { chromium, Locator, Page } from 'playwright';
 import { config } from './config';
-import { selectBestProduct, processIngredientDescription } from './llm';
-import { Product } from './types';
+import { selectBestProduct, normalizeIngredients } from './llm';
+import { ParsedIngredient, Product, ProductSelection, Recipe, RunOptions } from './types';
 import { logger } from './logger';
 import { extractIngredientsFromUrl } from './recipeParser';
-import { extractIngredientsFromJsonLd } from './jsonldRecipeParser';
+import { extractRecipeFromJsonLd } from './jsonldRecipeParser';
+import { parseIngredient, scaleIngredient } from './ingredientParser';
+import { aggregateIngredients } from './ingredientAggregator';
+import { getRecipeUrlsFromCommandLine, getServingsFromCommandLine, getStrategyFromCommandLine, getBudgetFromCommandLine, getOptionValue, getOptionValues, hasFlag } from './cli';
+import { reviewSelection } from './review';
+import { findPreferredProduct, rememberProductChoice } from './preferences';
+import { applyPantry, runPantryCommand } from './pantry';
+import { searchWithReformulations } from './searchReformulation';
+import { diffCart, logCart, logCartRemovals, readCart, reconcileCart, sameQuantity, setCartQuantity } from './cart';
+import { createBrowserContext, createRequestContext, getLoggedInCustomer, saveSession, waitForLogin } from './session';
+import { BasketLine, UnresolvedItem, logAppliedOffers, logBasketProposal, logUnresolvedItems, saveBasketPlan, loadBasketPlan, toBasketLine, toUnresolvedItem, formatQuantity, getPickUnit } from './basket';
+import { parsePackageSize, formatWeight } from './unitConversion';
+import { calculateOptimalQuantity } from './quantity';
+import { PlannedItem, optimizeBasket } from './basketOptimizer';
+import { filterProducts, formatViolations, loadConstraints } from './constraints';
+import { enrichProducts } from './productDetails';
+import { Substitution, findSubstitutes, logSubstitutions } from './substitution';
 
 // No longer need to define Product interface here since we're importing it
 
@@ -12,56 +28,57 @@ async function shopForGroceries(): Promise<void> {
   logger.info('Starting shopping process');
   
   try {
-    // Process recipe URL if provided
-    const recipeUrl = getRecipeUrlFromCommandLine();
-    let shoppingList: string[] = [];
+    // In dry-run mode nothing is added to the cart, a basket plan is saved instead
+    const options: RunOptions = {
+      dryRun: hasFlag(['--dry-run']),
+      interactive: hasFlag(['--interactive', '-i']),
+      strategy: getStrategyFromCommandLine(),
+      budget: getBudgetFromCommandLine(),
+      constraints: loadConstraints(getOptionValues(['--profile'])),
+      enrich: hasFlag(['--enrich']) || config.enrichment.enabled,
+      sync: hasFlag(['--sync']) || config.cart.removeUnplanned
+    };
+    const planPath = getOptionValue(['--apply']);
+    if (options.dryRun) {
+      logger.info('Dry run: products will be selected but not added to the cart');
+    }
     
-    if (recipeUrl) {
-      logger.info(`Recipe URL provided: ${recipeUrl}`);
-      
-      // First try the JSON-LD parser
-      const ingredients = await extractIngredientsFromJsonLd(recipeUrl);
-      
-      if (ingredients.length === 0) {
-        logger.info('JSON-LD parser failed to extract ingredients, falling back to old parser');
-        // Fall back to the old parser if JSON-LD parser fails
-        const fallbackIngredients = await extractIngredientsFromUrl(recipeUrl);
-        
-        if (fallbackIngredients.length === 0) {
-          logger.error('Both parsers failed to extract ingredients from the recipe URL');
-          logger.info('Falling back to default shopping list');
-          shoppingList = config.shoppingList;
-        } else {
-          // Process ingredients from fallback parser
-          for (const ingredient of fallbackIngredients) {
-            logger.info(`Processing ingredient: "${ingredient}"`);
-            const searchTerm = await processIngredientDescription(ingredient);
-            logger.info(`Normalized to search term: "${searchTerm}"`);
-            shoppingList.push(searchTerm);
-          }
-        }
-      } else {
-        // Process ingredients from JSON-LD parser
-        for (const ingredient of ingredients) {
-          logger.info(`Processing ingredient: "${ingredient}"`);
-          const searchTerm = await processIngredientDescription(ingredient);
-          logger.info(`Normalized to search term: "${searchTerm}"`);
-          shoppingList.push(searchTerm);
-        }
+    // A saved plan replaces the recipe processing
+    const plannedLines = planPath ? loadBasketPlan(planPath) : [];
+    if (planPath && plannedLines.length === 0) {
+      logger.error('Nothing to apply from the basket plan');
+      return;
+    }
+    
+    // Select products for the shopping list through the search API, no browser needed
+    const unresolved: UnresolvedItem[] = [];
+    const basketLines = planPath ? plannedLines : await planBasket(await buildShoppingList(), options, unresolved);
+    
+    if (options.dryRun) {
+      // Show the proposal and save it for a later --apply run
+      logBasketProposal(basketLines);
+      logAppliedOffers(basketLines);
+      if (options.sync) {
+        await previewCartRemovals(basketLines);
       }
-    } else {
-      logger.info('Using default shopping list');
-      shoppingList = config.shoppingList;
+      await reportUnresolvedItems(unresolved);
+      saveBasketPlan(basketLines, config.dryRun.planPath, unresolved);
+      return;
     }
     
-    logger.info(`Shopping list contains ${shoppingList.length} items`);
+    if (basketLines.length === 0) {
+      logger.info('Nothing to add to the cart.');
+      await reportUnresolvedItems(unresolved);
+      return;
+    }
     
-    // Launch the browser
+    // The browser is only needed for the cart
     const browser = await chromium.launch({
       headless: false,
       slowMo: config.browser.slowMo
     });
-    const context = await browser.newContext();
+    // Reuse the saved login so the items land in the account's cart
+    const context = await createBrowserContext(browser);
     const page = await context.newPage();
     
     logger.debug(`Navigating to ${config.baseUrl}...`);
@@ -76,39 +93,76 @@ async function shopForGroceries(): Promise<void> {
     // Handle cookie dialog with more patience
     await handleCookieDialog(page);
     
-    // Array to store cart items
+    const customer = await getLoggedInCustomer(page);
+    if (customer) {
+      logger.info(`Logged in as ${customer}`);
+    } else {
+      logger.info('Not logged in, the cart is lost when the browser closes. Run "yarn hemkop-login" to log in once.');
+    }
+    
+    // Make the cart match the plan through the cart endpoint, so a rerun doesn't double it
+    const failedChanges = await reconcileCart(page, basketLines.filter(line => line.code), !!options.sync);
+    if (failedChanges === null) {
+      logger.error('Could not read the cart, adding every line through the product pages');
+    }
+    
+    // Lines without a product code, or that the cart endpoint refused, go through the product pages
+    const manualLines = failedChanges === null
+      ? basketLines
+      : basketLines.filter(line => !line.code || failedChanges.some(change => change.code === line.code));
+    
+    // Array to store cart items added through the product pages
     const cartItems: Product[] = [];
+    const substitutions: Substitution[] = [];
     
-    // Process each item in the shopping list sequentially
-    for (let itemIndex = 0; itemIndex < shoppingList.length; itemIndex++) {
-      const shoppingListItem = shoppingList[itemIndex];
-      logger.info(`Processing item ${itemIndex + 1}/${shoppingList.length}: ${shoppingListItem}`);
-      
-      // Extract search term from shopping list item
-      const searchTerm = await extractSearchTerm(shoppingListItem);
-      
-      // Search for the current item using normalized term
-      await searchForProduct(page, searchTerm);
-      
-      // Process search results and add to cart using the original description
-      const addedProduct = await processSearchResults(page, shoppingListItem);
+    for (let lineIndex = 0; lineIndex < manualLines.length; lineIndex++) {
+      const basketLine = manualLines[lineIndex];
+      logger.info(`Adding line ${lineIndex + 1}/${manualLines.length}: ${formatQuantity(basketLine.quantity, basketLine.pickUnit)} x ${basketLine.title}`);
       
-      // If a product was added to cart, store it
+      const addedProduct = await applyBasketLine(page, basketLine);
       if (addedProduct) {
         cartItems.push(addedProduct);
+      } else {
+        // Sold out or impossible to add, so fall back to the next-best product
+        const substitute = await addSubstitute(page, basketLine, cartItems);
+        substitutions.push({ original: basketLine, substitute });
       }
       
       // Short pause between items
       await page.waitForTimeout(2000);
     }
     
-    // Log the final shopping cart contents
-    logFinalCart(cartItems);
+    // Log what the cart on hemkop.se holds now, or what this run added if it can't be read
+    const finalCart = await readCart(page.request);
+    logCart(finalCart ?? cartItems.map(item => ({
+      code: item.code || '',
+      title: item.title,
+      quantity: item.quantity,
+      price: item.price
+    })));
+    
+    // Only the offers of lines that made it into the cart count, through their substitute if one was used
+    const addedLines = basketLines
+      .map(line => {
+        const substitution = substitutions.find(candidate => candidate.original === line);
+        return substitution ? substitution.substitute : line;
+      })
+      .filter((line): line is BasketLine => !!line);
+    logAppliedOffers(finalCart ? addedLines.filter(line => finalCart.some(cartLine => cartLine.code === line.code)) : addedLines);
+    logSubstitutions(substitutions);
+    
+    // Items that need a manual decision come last so they aren't missed
+    await reportUnresolvedItems(unresolved, page);
     
     // Keep the browser open for the configured amount of time
     logger.info(`All shopping list items processed! Keeping browser open for ${config.timeouts.browserDisplay / 1000} seconds...`);
     await new Promise(resolve => setTimeout(resolve, config.timeouts.browserDisplay));
     
+    // Keep the refreshed session cookies for the next run
+    if (customer) {
+      await saveSession(context);
+    }
+    
     // Close the browser
     await browser.close();
     logger.debug('Browser closed.');
@@ -119,62 +173,201 @@ async function shopForGroceries(): Promise<void> {
 }
 
 /**
- * Get recipe URL from command line arguments
- * @returns Recipe URL if provided, otherwise undefined
+ * List the cart lines a synced run would remove, reading the cart without a browser
+ * @param basketLines The planned basket lines
+ */
+async function previewCartRemovals(basketLines: BasketLine[]): Promise<void> {
+  const request = await createRequestContext();
+  try {
+    const cart = await readCart(request);
+    if (cart) {
+      logCartRemovals(diffCart(cart, basketLines, true));
+    }
+  } finally {
+    await request.dispose();
+  }
+}
+
+/**
+ * Log in to hemkop.se in a browser window and save the session for later runs
+ */
+async function login(): Promise<void> {
+  const browser = await chromium.launch({
+    headless: false,
+    slowMo: config.browser.slowMo
+  });
+  
+  try {
+    const context = await createBrowserContext(browser);
+    const page = await context.newPage();
+    
+    await page.goto(config.baseUrl);
+    await page.waitForLoadState('domcontentloaded');
+    await handleCookieDialog(page);
+    
+    const customer = await getLoggedInCustomer(page) || await waitForLogin(page);
+    if (!customer) {
+      logger.error('Login timed out');
+      return;
+    }
+    
+    await saveSession(context);
+    logger.info(`Logged in as ${customer}. The session is saved in ${config.session.storageStatePath}`);
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Select a product and quantity for every item on the shopping list
+ * @param shoppingList The shopping list
+ * @param options Run options (dry run, interactive review)
+ * @param unresolved Collects the items without a good enough match
+ * @returns The basket lines for the items a product was found for
  */
-function getRecipeUrlFromCommandLine(): string | undefined {
-  const args = process.argv.slice(2);
+async function planBasket(shoppingList: ParsedIngredient[], options: RunOptions, unresolved: UnresolvedItem[]): Promise<BasketLine[]> {
+  const plannedItems: PlannedItem[] = [];
   
-  // Look for a URL in the command line arguments
-  const urlArg = args.find(arg => arg.startsWith('http'));
+  // Extract search terms for the whole list at once, amounts are already parsed out
+  const searchTerms = await extractSearchTerms(shoppingList);
   
-  if (urlArg) {
-    try {
-      const url = new URL(urlArg);
-      return url.toString();
-    } catch (error) {
-      logger.error(`Invalid URL provided: ${urlArg}`);
+  // Process each item in the shopping list sequentially
+  for (let itemIndex = 0; itemIndex < shoppingList.length; itemIndex++) {
+    const shoppingListItem = shoppingList[itemIndex];
+    logger.info(`Processing item ${itemIndex + 1}/${shoppingList.length}: ${shoppingListItem.raw}`);
+    
+    const searchTerm = searchTerms[itemIndex];
+    
+    // Search for the item and select the best match using the original description
+    const selection = await processSearchResults(shoppingListItem, searchTerm, options, unresolved);
+    
+    // If a product was selected, store it
+    if (selection) {
+      selection.searchTerm = selection.searchTerm || searchTerm;
+      plannedItems.push({ item: shoppingListItem, selection });
     }
   }
   
-  // Check for --recipe flag
-  const recipeIndex = args.findIndex(arg => arg === '--recipe' || arg === '-r');
-  if (recipeIndex !== -1 && recipeIndex < args.length - 1) {
-    try {
-      const url = new URL(args[recipeIndex + 1]);
-      return url.toString();
-    } catch (error) {
-      logger.error(`Invalid URL provided after --recipe flag: ${args[recipeIndex + 1]}`);
+  // Weigh the choices against each other for price once all items are known
+  const finalItems = options.strategy || options.budget !== undefined
+    ? optimizeBasket(plannedItems, options.strategy || 'premium', options.budget)
+    : plannedItems;
+  
+  return finalItems.map(({ item, selection }) => ({
+    ...toBasketLine(item.raw, selection.searchTerm!, selection),
+    substitutes: findSubstitutes(item, selection)
+  }));
+}
+
+/**
+ * Build the shopping list from the recipe URLs, or the default list if none were given
+ * @returns The parsed and merged shopping list
+ */
+async function buildShoppingList(): Promise<ParsedIngredient[]> {
+  // Process recipe URLs if provided
+  const recipeUrls = getRecipeUrlsFromCommandLine();
+  const servings = getServingsFromCommandLine();
+  let parsedIngredients: ParsedIngredient[] = [];
+  
+  if (recipeUrls.length > 0) {
+    logger.info(`${recipeUrls.length} recipe URL(s) provided`);
+    
+    for (const recipeUrl of recipeUrls) {
+      const recipe = await extractRecipe(recipeUrl);
+      parsedIngredients.push(...parseRecipeIngredients(recipe, servings));
     }
+    
+    if (parsedIngredients.length === 0) {
+      logger.error('Failed to extract ingredients from the recipe URLs');
+      logger.info('Falling back to default shopping list');
+      parsedIngredients = config.shoppingList.map(ingredient => parseIngredient(ingredient));
+    }
+  } else {
+    logger.info('Using default shopping list');
+    parsedIngredients = config.shoppingList.map(ingredient => parseIngredient(ingredient));
   }
   
-  return undefined;
+  parsedIngredients.forEach(item => logger.debug(`Parsed "${item.raw}" -> ${JSON.stringify(item)}`));
+  
+  // Merge identical ingredients so each is bought once
+  const shoppingList = aggregateIngredients(parsedIngredients);
+  if (shoppingList.length < parsedIngredients.length) {
+    logger.info(`Merged ${parsedIngredients.length} ingredients into ${shoppingList.length} shopping list items`);
+  }
+  
+  // Skip what we already have at home
+  const toBuy = applyPantry(shoppingList);
+  
+  logger.info(`Shopping list contains ${toBuy.length} items`);
+  return toBuy;
 }
 
 /**
- * Extract search term from shopping list item
- * @param shoppingListItem The item from the shopping list
- * @returns The search term to use
+ * Extract the ingredients of a single recipe
+ * @param recipeUrl The recipe URL
+ * @returns The recipe, with no ingredients if both parsers failed
  */
-async function extractSearchTerm(shoppingListItem: string): Promise<string> {
-  try {
-    // Use LLM to process the ingredient description
-    const searchTerm = await processIngredientDescription(shoppingListItem);
-    logger.info(`LLM processing: "${shoppingListItem}" → "${searchTerm}"`);
-    return searchTerm;
-  } catch (error) {
-    logger.error(`Error extracting search term: ${error}`);
-    // Fallback to using the original item
-    return shoppingListItem;
+async function extractRecipe(recipeUrl: string): Promise<Recipe> {
+  logger.info(`Recipe URL provided: ${recipeUrl}`);
+  
+  // First try the JSON-LD parser
+  const recipe = await extractRecipeFromJsonLd(recipeUrl);
+  if (recipe.ingredients.length > 0) {
+    return recipe;
+  }
+  
+  logger.info('JSON-LD parser failed to extract ingredients, falling back to old parser');
+  // Fall back to the old parser if JSON-LD parser fails
+  const fallbackIngredients = await extractIngredientsFromUrl(recipeUrl);
+  if (fallbackIngredients.length === 0) {
+    logger.error(`Both parsers failed to extract ingredients from ${recipeUrl}`);
+  }
+  
+  return { ingredients: fallbackIngredients };
+}
+
+/**
+ * Parse the ingredients of a recipe, scaled to the requested number of servings
+ * @param recipe The extracted recipe
+ * @param servings The number of servings to shop for, if given
+ * @returns The parsed and scaled ingredients
+ */
+function parseRecipeIngredients(recipe: Recipe, servings: number | undefined): ParsedIngredient[] {
+  const ingredients = recipe.ingredients.map(ingredient => parseIngredient(ingredient));
+  
+  if (!servings) {
+    return ingredients;
+  }
+  
+  if (!recipe.servings) {
+    logger.error(`${recipe.name || 'Recipe'} doesn't state its servings, using the amounts as written`);
+    return ingredients;
   }
+  
+  const factor = servings / recipe.servings;
+  logger.info(`Scaling ${recipe.name || 'recipe'} from ${recipe.servings} to ${servings} servings (x${factor.toFixed(2)})`);
+  
+  return ingredients.map(ingredient => scaleIngredient(ingredient, factor));
+}
+
+/**
+ * Extract search terms from the shopping list items
+ * @param shoppingList The shopping list
+ * @returns The search term to use for each item
+ */
+async function extractSearchTerms(shoppingList: ParsedIngredient[]): Promise<string[]> {
+  const searchTerms = await normalizeIngredients(shoppingList.map(item => item.name));
+  shoppingList.forEach((item, index) => logger.info(`LLM processing: "${item.raw}" → "${searchTerms[index]}"`));
+  return searchTerms;
 }
 
 /**
  * Search for a product on the Hemköp website
  * @param page Playwright page
  * @param searchTerm The term to search for
+ * @returns The path of the search results screenshot
  */
-async function searchForProduct(page: Page, searchTerm: string): Promise<void> {
+async function searchForProduct(page: Page, searchTerm: string): Promise<string> {
   logger.debug(`Finding search bar...`);
   
   // Locate and click the search bar
@@ -217,143 +410,316 @@ async function searchForProduct(page: Page, searchTerm: string): Promise<void> {
   const screenshotPath = `${searchTerm.replace(/\s+/g, '-')}-search-results.png`;
   await page.screenshot({ path: screenshotPath });
   logger.debug(`Screenshot saved as ${screenshotPath}`);
+  return screenshotPath;
 }
 
 /**
- * Process search results for a shopping list item
- * @param page Playwright page
+ * Take search result screenshots for the unresolved items and list them
+ * @param unresolved The items without a good enough match
+ * @param page Page to search on, a headless browser is launched if not given
+ */
+async function reportUnresolvedItems(unresolved: UnresolvedItem[], page?: Page): Promise<void> {
+  if (unresolved.length === 0) {
+    return;
+  }
+  
+  let browser = null;
+  try {
+    if (!page) {
+      browser = await chromium.launch({ headless: true });
+      page = await browser.newPage();
+      await page.goto(config.baseUrl);
+      await page.waitForLoadState('domcontentloaded');
+      await handleCookieDialog(page);
+    }
+    
+    for (const entry of unresolved) {
+      entry.screenshot = await searchForProduct(page, entry.searchTerm);
+    }
+  } catch (error) {
+    logger.error(`Could not take screenshots of the unresolved items: ${error}`);
+  } finally {
+    if (browser) await browser.close();
+  }
+  
+  logUnresolvedItems(unresolved);
+}
+
+/**
+ * Search for a shopping list item and process the search results
  * @param shoppingListItem The shopping list item being processed
- * @returns The product that was added to the cart, or undefined if none was added
+ * @param searchTerm The normalized search term
+ * @param options Run options (dry run, interactive review)
+ * @param unresolved Collects the item if no product matches well enough
+ * @returns The selected product with its planned quantity, or undefined if none was selected
  */
-async function processSearchResults(page: Page, shoppingListItem: string): Promise<Product | undefined> {
-  const products = await findProductsOnPage(page);
-  if (products.length === 0) {
-    logger.error('No products found on the page');
-    return undefined;
+async function processSearchResults(
+  shoppingListItem: ParsedIngredient,
+  searchTerm: string,
+  options: RunOptions,
+  unresolved: UnresolvedItem[]
+): Promise<ProductSelection | undefined> {
+  let selection: ProductSelection | null = null;
+  let noSelectionReason = 'None of the search results is a suitable product';
+  let products: Product[] = [];
+  
+  // Preferences are keyed by the normalized term, even if the user searches again
+  const preferenceKey = searchTerm;
+  
+  // Interactive review may ask for another search, so repeat until a product is settled
+  while (true) {
+    // Search for the current item using normalized term, rephrasing it if nothing relevant is found
+    const search = await searchWithReformulations(shoppingListItem, searchTerm);
+    searchTerm = search.searchTerm;
+    products = search.products;
+    if (products.length === 0) {
+      logger.error(`No products found for "${searchTerm}"`);
+      if (!options.interactive) {
+        unresolved.push(toUnresolvedItem(shoppingListItem.raw, searchTerm, 'No products found', products));
+        return undefined;
+      }
+    }
+    
+    // Sold-out products can't be added to the cart, so they are never candidates
+    const available = products.filter(product => product.inStock !== false);
+    if (products.length > 0 && available.length === 0) {
+      const reason = `All ${products.length} products are out of stock`;
+      logger.decision(`Not adding ${shoppingListItem.raw}. ${reason}`);
+      if (!options.interactive) {
+        unresolved.push(toUnresolvedItem(shoppingListItem.raw, searchTerm, reason, products));
+        return undefined;
+      }
+    } else if (available.length < products.length) {
+      logger.debug(`${products.length - available.length} of ${products.length} products are out of stock`);
+    }
+    products = available;
+    
+    // Product pages tell what titles don't, such as labels and allergens
+    if (options.enrich && products.length > 0) {
+      await enrichProducts(products);
+    }
+    
+    // Drop the products the dietary and brand constraints rule out before anything is chosen
+    if (options.constraints && products.length > 0) {
+      const { allowed, violations } = filterProducts(products, options.constraints);
+      if (allowed.length === 0) {
+        const reason = `All ${products.length} products break the constraints: ${formatViolations(violations)}`;
+        logger.decision(`Not adding ${shoppingListItem.raw}. ${reason}`);
+        if (!options.interactive) {
+          unresolved.push(toUnresolvedItem(shoppingListItem.raw, searchTerm, reason, products));
+          return undefined;
+        }
+      } else if (allowed.length < products.length) {
+        logger.debug(`Constraints excluded ${products.length - allowed.length} of ${products.length} products: ${formatViolations(violations)}`);
+      }
+      products = allowed;
+    }
+    
+    // Log found products for debugging
+    logFoundProducts(products);
+    
+    // Prefer the product chosen for this term on earlier runs, without asking the LLM
+    const preferredProduct = findPreferredProduct(preferenceKey, products);
+    if (preferredProduct) {
+      logger.decision(`Using remembered choice for "${preferenceKey}": ${preferredProduct.title}`);
+      selection = { product: preferredProduct, reasoning: 'Remembered choice from an earlier run', score: 1, fixed: true };
+    } else if (products.length > 0) {
+      // Use LLM to select the best product, telling a failed request apart from a rejection
+      const result = await selectBestProduct(products, shoppingListItem, options.constraints);
+      selection = result.selection;
+      if (result.failed) {
+        noSelectionReason = `The product choice failed: ${result.reason}`;
+      } else if (result.reason) {
+        noSelectionReason = `None of the search results is a suitable product: ${result.reason}`;
+      }
+    } else {
+      selection = null;
+    }
+    if (!selection) {
+      logger.error(`No product selected for "${shoppingListItem.raw}": ${noSelectionReason}`);
+      if (!options.interactive) {
+        unresolved.push(toUnresolvedItem(shoppingListItem.raw, searchTerm, noSelectionReason, products));
+        return undefined;
+      }
+    }
+    
+    if (!options.interactive) {
+      break;
+    }
+    
+    // Let the user accept the recommendation, pick another product, search again or skip
+    const decision = await reviewSelection(products, selection?.product ?? null, shoppingListItem);
+    if (decision.action === 'skip') {
+      logger.info(`Skipped ${shoppingListItem.raw}`);
+      return undefined;
+    }
+    if (decision.action === 'search') {
+      searchTerm = decision.searchTerm;
+      continue;
+    }
+    if (decision.action === 'select') {
+      selection = { product: decision.product, reasoning: 'Chosen manually during review', score: 1, fixed: true };
+    } else if (selection) {
+      // Confirmed by the user, so the basket optimizer keeps it
+      selection.score = 1;
+      selection.fixed = true;
+    }
+    
+    // Remember what the user settled on for the next run
+    rememberProductChoice(preferenceKey, decision.product, decision.action === 'accept' ? 'accepted' : 'corrected');
+    break;
   }
   
-  // Log found products for debugging
-  logFoundProducts(products);
+  if (!selection) {
+    return undefined;
+  }
+  selection.searchTerm = searchTerm;
+  // The other results are the basket optimizer's alternatives and the substitutes for sold-out products
+  selection.candidates = products;
   
-  // Use LLM to select the best product
-  const selectedProduct = await selectBestProduct(products, shoppingListItem);
-  if (!selectedProduct) {
-    logger.error('LLM could not select a product');
+  // Leave poor matches for a manual decision rather than putting the wrong thing in the cart
+  if (selection.score < config.selection.minScore) {
+    const chosen = selection.product;
+    const reason = `Best match "${chosen.title}" only scored ${selection.score.toFixed(2)} (minimum ${config.selection.minScore}): ${selection.reasoning}`;
+    logger.decision(`Not adding ${shoppingListItem.raw}. ${reason}`);
+    unresolved.push(toUnresolvedItem(shoppingListItem.raw, searchTerm, reason, [chosen, ...products.filter(p => p !== chosen)]));
     return undefined;
   }
   
+  const selectedProduct = selection.product;
   logger.info(`Selected: ${selectedProduct.title}`);
   logger.debug(`Selected product price: ${selectedProduct.price || 'N/A'}`);
   logger.debug(`Selected product compare price: ${selectedProduct.comparePrice || 'N/A'}`);
   
-  // Add product to cart
-  if (!await addProductToCart(page, selectedProduct)) {
+  // Work out how many packages cover the shopping list requirement
+  selectedProduct.quantity = calculateOptimalQuantity(selectedProduct, shoppingListItem);
+  logger.info(`Planned ${formatQuantity(selectedProduct.quantity, getPickUnit(selectedProduct))} of ${selectedProduct.title}`);
+  
+  return selection;
+}
+
+/**
+ * Add a planned basket line to the cart
+ * @param page Playwright page
+ * @param line The planned basket line
+ * @returns The product that was added to the cart, or undefined if it couldn't be found or added
+ */
+async function applyBasketLine(page: Page, line: BasketLine): Promise<Product | undefined> {
+  const product: Product = {
+    code: line.code,
+    title: line.title,
+    price: line.price,
+    comparePrice: line.comparePrice,
+    displayVolume: line.displayVolume,
+    sellingUnit: line.pickUnit === 'kilogram' ? 'kg' : undefined,
+    orderByWeight: line.pickUnit === 'kilogram',
+    quantity: 0
+  };
+  
+  // Find the product tile in the browser so its buttons can be clicked
+  if (!await locateProductOnPage(page, product, line.searchTerm)) {
+    logger.error(`Product "${line.title}" not found on hemkop.se`);
+    return undefined;
+  }
+  
+  // A product already in the cart shows its quantity instead of the buy button
+  const productContainerLocator = product.element.locator('xpath=./ancestor::div[@data-testid="product-container"]');
+  if (await isSoldOut(productContainerLocator)) {
+    logger.error(`${product.title} is out of stock`);
+    return undefined;
+  }
+  const shownQuantity = await readDisplayedQuantity(productContainerLocator);
+  if (shownQuantity !== undefined && shownQuantity > 0) {
+    logger.debug(`${product.title} is already in the cart (${shownQuantity})`);
+    product.quantity = shownQuantity;
+  } else if (!await addProductToCart(page, product)) {
     return undefined;
   }
   
-  // Adjust quantity based on weight if needed
-  await adjustProductQuantity(page, selectedProduct, shoppingListItem);
+  await setProductQuantity(page, product, line.quantity);
   
   // Display the final quantity information
-  logFinalQuantityInfo(selectedProduct);
-  
-  // Wait a moment to see the result
-  await page.waitForTimeout(2000);
+  logFinalQuantityInfo(product);
   
-  return selectedProduct;
+  return product;
 }
 
 /**
- * Find all products on the current page
+ * Add the first of a basket line's substitutes that can be added, through the cart
+ * endpoint if possible and otherwise through the product pages
  * @param page Playwright page
- * @returns Array of Product objects
+ * @param line The basket line that couldn't be added
+ * @param cartItems Collects the product that was added
+ * @returns The substitute that was added, or undefined if none could be
  */
-async function findProductsOnPage(page: Page): Promise<Product[]> {
-  logger.debug('Checking page content for product titles...');
-  const pageContent = await page.content();
-  const productTitleMatches = pageContent.match(/data-testid="product-title"/g);
-  logger.debug(`Found ${productTitleMatches ? productTitleMatches.length : 0} product-title attributes in HTML`);
-  
-  // Try locator with class name specifically from the HTML
-  logger.debug('Trying to find products with specific class name...');
-  const productTitleLocator = page.locator('p.sc-6f5e6e55-0.gUKaNh');
-  let productTitleCount = await productTitleLocator.count();
-  
-  // If the specific class doesn't work, try a more general selector
-  if (productTitleCount === 0) {
-    logger.debug('Trying fallback selector for product titles...');
-    const fallbackTitleLocator = page.locator('[data-testid="product-title"]');
-    productTitleCount = await fallbackTitleLocator.count();
-    
-    if (productTitleCount > 0) {
-      logger.debug(`Found ${productTitleCount} products with fallback selector`);
-    }
-  } else {
-    logger.debug(`Found ${productTitleCount} products with the specific class name`);
-  }
-  
-  if (productTitleCount === 0) {
-    return [];
-  }
-  
-  // Extract product information including prices
-  const products: Product[] = [];
-  for (let i = 0; i < productTitleCount; i++) {
-    const titleElement = productTitleLocator.nth(i);
-    const title = await titleElement.textContent() || 'Unknown product';
+async function addSubstitute(page: Page, line: BasketLine, cartItems: Product[]): Promise<BasketLine | undefined> {
+  for (const substitute of line.substitutes || []) {
+    logger.info(`Trying ${substitute.title} instead of ${line.title}`);
     
-    const productInfo = await extractProductInfo(titleElement);
+    if (substitute.code && await setCartQuantity(page, substitute.code, substitute.quantity, substitute.pickUnit)) {
+      const cart = await readCart(page.request);
+      if (cart?.some(cartLine => cartLine.code === substitute.code && cartLine.quantity > 0)) {
+        cartItems.push({ code: substitute.code, title: substitute.title, price: substitute.price, quantity: substitute.quantity });
+        logger.decision(`Substituted ${substitute.title} for ${line.title}`);
+        return substitute;
+      }
+    }
     
-    products.push({ 
-      title, 
-      element: titleElement,
-      price: productInfo.price, 
-      comparePrice: productInfo.comparePrice,
-      displayVolume: productInfo.displayVolume,
-      quantity: 0 // Initialize quantity to 0
-    });
+    const addedProduct = await applyBasketLine(page, substitute);
+    if (addedProduct) {
+      cartItems.push(addedProduct);
+      logger.decision(`Substituted ${substitute.title} for ${line.title}`);
+      return substitute;
+    }
   }
   
-  return products;
+  logger.error(`Could not add ${line.title} or any substitute for ${line.item}`);
+  return undefined;
 }
 
 /**
- * Extract product info from a product element
- * @param titleElement The title element locator
- * @returns Object containing price, comparePrice and displayVolume
+ * Check whether a product tile shows the product as sold out
+ * @param containerLocator The product container locator
+ * @returns Whether the tile has an out-of-stock marker
  */
-async function extractProductInfo(titleElement: any): Promise<{price: string, comparePrice: string, displayVolume: string}> {
-  // Find the product container for this title
-  const productContainer = titleElement.locator('xpath=./ancestor::div[@data-testid="product-container"]');
-  
-  let price = '';
-  let comparePrice = '';
-  let displayVolume = '';
-  
-  if (await productContainer.count() > 0) {
-    // Extract the price
-    const priceElement = productContainer.locator('[data-testid="price-text"]');
-    if (await priceElement.count() > 0) {
-      price = await priceElement.textContent() || '';
-      price = price.trim();
-    }
+async function isSoldOut(containerLocator: Locator): Promise<boolean> {
+  try {
+    return await containerLocator.locator(config.selectors.outOfStock).count() > 0;
+  } catch (error) {
+    logger.debug(`Could not check the stock status: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Find a product's tile on the website, searching for it in the browser
+ * @param page Playwright page
+ * @param product The product to locate, its element is set when found
+ * @param searchTerm The search that found the product through the API
+ * @returns Whether the product was found
+ */
+async function locateProductOnPage(page: Page, product: Product, searchTerm: string): Promise<boolean> {
+  // Try the original search first, then the product name itself
+  const searches = Array.from(new Set([searchTerm, product.title]));
+  
+  for (const search of searches) {
+    await searchForProduct(page, search);
     
-    // Extract the compare price (jmf pris)
-    const comparePriceElement = productContainer.locator('[data-testid="compare-price"]');
-    if (await comparePriceElement.count() > 0) {
-      comparePrice = await comparePriceElement.textContent() || '';
-      comparePrice = comparePrice.trim();
-    }
+    const titleLocator = page.locator(config.selectors.productTitle);
+    const count = await titleLocator.count();
+    logger.debug(`Found ${count} product titles when searching for "${search}"`);
     
-    // Extract the display volume/weight (ca: 170g)
-    const displayVolumeElement = productContainer.locator('[data-testid="display-volume"]');
-    if (await displayVolumeElement.count() > 0) {
-      displayVolume = await displayVolumeElement.textContent() || '';
-      displayVolume = displayVolume.trim();
+    for (let i = 0; i < count; i++) {
+      const titleElement = titleLocator.nth(i);
+      const title = (await titleElement.textContent() || '').trim();
+      if (title.toLowerCase() === product.title.trim().toLowerCase()) {
+        product.element = titleElement;
+        return true;
+      }
     }
   }
   
-  return { price, comparePrice, displayVolume };
+  return false;
 }
 
 /**
@@ -364,10 +730,12 @@ function logFoundProducts(products: Product[]): void {
   logger.debug(`Found ${products.length} products:`);
   if (logger.isDebugEnabled()) {
     products.forEach((product, index) => {
-      logger.debug(`${index + 1}. ${product.title}`);
-      logger.debug(`   Price: ${product.price || 'N/A'}`);
+      logger.debug(`${index + 1}. ${product.title}${product.brand ? ` (${product.brand})` : ''}`);
+      logger.debug(`   Code: ${product.code || 'N/A'}`);
+      logger.debug(`   Price: ${product.price || 'N/A'}${product.unit ? ` (${product.unit})` : ''}`);
       logger.debug(`   Compare Price: ${product.comparePrice || 'N/A'}`);
       logger.debug(`   Display Volume: ${product.displayVolume || 'N/A'}`);
+      logger.debug(`   In Stock: ${product.inStock === false ? 'No' : 'Yes'}`);
     });
   }
 }
@@ -472,92 +840,70 @@ async function logAllButtonsInContainer(containerLocator: any): Promise<void> {
 }
 
 /**
- * Adjust the quantity of a product based on weight information
- * @param page Playwright page
- * @param product The product to adjust
- * @param shoppingListItem The original shopping list item
+ * Read the quantity shown in a product tile's quantity input
+ * @param containerLocator The product container locator
+ * @returns The displayed quantity, or undefined if there is no readable input
  */
-async function adjustProductQuantity(page: Page, product: Product, shoppingListItem: string): Promise<void> {
-  // Debug: Check all buttons in the container
-  const productContainerLocator = product.element.locator('xpath=./ancestor::div[@data-testid="product-container"]');
-  logger.debug("Checking all buttons in the product container after clicking 'Köp':");
-  debugProductButtons(productContainerLocator);
-  
-  // Use the exact selectors from our debug output
-  const plusButtonLocator = productContainerLocator.locator('button[data-testid="plus-button"], button[aria-label="Öka antal"]');
-  
-  // Check if the plus button is visible
-  if (await plusButtonLocator.count() === 0) {
-    logger.debug("Plus button not found after buying - may need to adjust selectors");
-    return;
-  }
-  
-  logger.debug("Found plus button for quantity adjustment");
-  
-  // Extract weight information
-  const { unitWeight, requiredWeight } = extractWeightInformation(product, shoppingListItem);
-  
-  // If we don't have enough information, don't adjust quantity
-  if (unitWeight === 0 || requiredWeight === 0) {
-    logger.info(`Added 1 of ${product.title}`);
-    return;
-  }
-  
-  // Calculate and adjust quantity based on weight
-  const optimalQuantity = Math.ceil(requiredWeight / unitWeight);
-  const clicksNeeded = optimalQuantity - 1; // Already have one from the initial buy click
-  
-  logger.debug(`Optimal quantity to reach ${requiredWeight}g is ${optimalQuantity} (${optimalQuantity * unitWeight}g)`);
-  
-  // Click the plus button to increase quantity to optimal amount
-  for (let i = 0; i < clicksNeeded; i++) {
-    logger.debug(`Clicking plus button (${i+1}/${clicksNeeded})`);
-    await plusButtonLocator.click();
-    product.quantity += 1;
-    await page.waitForTimeout(500); // Wait between clicks
+async function readDisplayedQuantity(containerLocator: Locator): Promise<number | undefined> {
+  const inputLocator = containerLocator.locator(config.selectors.quantityInput);
+  if (await inputLocator.count() === 0) {
+    return undefined;
   }
   
-  logger.info(`Added ${optimalQuantity} of ${product.title} (${optimalQuantity * unitWeight}g total)`);
+  // Weights are shown with a decimal comma, e.g. "1,5"
+  const value = parseFloat((await inputLocator.first().inputValue()).replace(',', '.'));
+  return Number.isNaN(value) ? undefined : value;
 }
 
 /**
- * Extract unit weight and required weight from product and shopping list
- * @param product The product to extract weight from
- * @param shoppingListItem The shopping list item to extract required weight from
- * @returns Object containing unitWeight and requiredWeight in grams
+ * Set the quantity of a product in the cart, increasing or decreasing it
+ * @param page Playwright page
+ * @param product The product to adjust, its quantity is set to what the page shows afterwards
+ * @param targetQuantity The number of packages, or kg for products ordered by weight, to end up with
+ * @returns Whether the page shows the target quantity
  */
-function extractWeightInformation(product: Product, shoppingListItem: string): {unitWeight: number, requiredWeight: number} {
-  let unitWeight = 0;
-  let requiredWeight = 0;
-  
-  // Extract weight from display volume
-  const weightMatch = product.displayVolume?.match(/(\d+)\s*(g|kg)/i);
-  if (weightMatch) {
-    let weight = parseInt(weightMatch[1], 10);
-    const unit = weightMatch[2].toLowerCase();
-    
-    // Convert to grams for calculations
-    if (unit === 'kg') {
-      weight *= 1000;
+async function setProductQuantity(page: Page, product: Product, targetQuantity: number): Promise<boolean> {
+  const productContainerLocator = product.element.locator('xpath=./ancestor::div[@data-testid="product-container"]');
+  debugProductButtons(productContainerLocator);
+  
+  let displayed = await readDisplayedQuantity(productContainerLocator);
+  
+  // Type the exact quantity into the input
+  if (displayed !== undefined && !sameQuantity(displayed, targetQuantity)) {
+    logger.debug(`Typing quantity ${targetQuantity} (shown: ${displayed})`);
+    const inputLocator = productContainerLocator.locator(config.selectors.quantityInput).first();
+    await inputLocator.fill(String(targetQuantity).replace('.', ','));
+    await inputLocator.press('Enter');
+    await page.waitForTimeout(1000);
+    displayed = await readDisplayedQuantity(productContainerLocator);
+  }
+  
+  // Step the rest with the buttons, reading the quantity back after every click so a dropped click isn't counted
+  const plusButtonLocator = productContainerLocator.locator(config.selectors.plusButton);
+  const minusButtonLocator = productContainerLocator.locator(config.selectors.minusButton);
+  let current = displayed ?? product.quantity;
+  for (let attempt = 0; !sameQuantity(current, targetQuantity) && attempt < config.cart.maxQuantityClicks; attempt++) {
+    const button = current < targetQuantity ? plusButtonLocator : minusButtonLocator;
+    if (await button.count() === 0) {
+      logger.debug(`No ${current < targetQuantity ? 'plus' : 'minus'} button found for ${product.title}`);
+      break;
     }
-    unitWeight = weight;
-    logger.debug(`Each ${product.title} weighs approximately ${unitWeight}g`);
+    
+    await button.first().click();
+    await page.waitForTimeout(500);
+    
+    displayed = await readDisplayedQuantity(productContainerLocator);
+    current = displayed ?? current + (current < targetQuantity ? 1 : -1);
   }
   
-  // Get the required weight from shopping list
-  const requiredWeightMatch = shoppingListItem.match(/(\d+\.?\d*)\s*(g|gram|kg|kilo)/i);
-  if (requiredWeightMatch) {
-    requiredWeight = parseFloat(requiredWeightMatch[1]);
-    const unit = requiredWeightMatch[2].toLowerCase();
-    
-    // Convert to grams for comparison
-    if (unit === 'kg' || unit === 'kilo') {
-      requiredWeight *= 1000;
-    }
-    logger.debug(`Shopping list requires approximately ${requiredWeight}g`);
+  product.quantity = current;
+  if (!sameQuantity(current, targetQuantity)) {
+    logger.error(`Could not set ${product.title} to ${targetQuantity}, the page shows ${current}`);
+    return false;
   }
   
-  return { unitWeight, requiredWeight };
+  logger.info(`Set ${product.title} to ${targetQuantity}`);
+  return true;
 }
 
 /**
@@ -587,36 +933,19 @@ async function debugProductButtons(containerLocator: any): Promise<void> {
  * @param product The product to log quantity for
  */
 function logFinalQuantityInfo(product: Product): void {
-  logger.info(`Final quantity: ${product.quantity} of ${product.title}`);
-  
-  if (!product.displayVolume) {
+  if (product.orderByWeight) {
+    logger.info(`Final quantity: ${product.quantity} kg of ${product.title}`);
     return;
   }
   
-  const weightMatch = product.displayVolume?.match(/(\d+)\s*(g|kg)/i);
-  if (!weightMatch) {
-    return;
-  }
-  
-  let weight = parseInt(weightMatch[1], 10);
-  const unit = weightMatch[2].toLowerCase();
-  
-  // Convert to grams for calculations
-  if (unit === 'kg') {
-    weight *= 1000;
-  }
-  
-  const totalWeight = weight * product.quantity;
+  logger.info(`Final quantity: ${product.quantity} of ${product.title}`);
   
-  // Format the total weight nicely
-  let formattedWeight = '';
-  if (totalWeight >= 1000) {
-    formattedWeight = `${(totalWeight / 1000).toFixed(2)}kg`;
-  } else {
-    formattedWeight = `${totalWeight}g`;
+  const weight = parsePackageSize(product.displayVolume, product.title);
+  if (weight === 0) {
+    return;
   }
   
-  logger.info(`Total weight: ${formattedWeight}`);
+  logger.info(`Total weight: ${formatWeight(weight * product.quantity)}`);
 }
 
 /**
@@ -667,47 +996,18 @@ async function handleCookieDialog(page: Page): Promise<boolean> {
   return false;
 }
 
-/**
- * Log the final cart contents in a nicely formatted table
- * @param cartItems Array of products in the cart
- */
-function logFinalCart(cartItems: Product[]): void {
-  if (cartItems.length === 0) {
-    logger.info('Final shopping cart is empty.');
-    return;
-  }
-
-  logger.info('=== FINAL SHOPPING CART ===');
-  logger.info('Name | Quantity | Price | Compare Price');
-  logger.info('-----|----------|-------|-------------');
-  
-  let totalPrice = 0;
-  
-  cartItems.forEach(item => {
-    // Extract price as number for total calculation
-    const priceText = item.price || '';
-    const priceMatch = priceText.match(/(\d+)[,.](\d+)/);
-    let itemPrice = 0;
-    
-    if (priceMatch) {
-      itemPrice = parseFloat(`${priceMatch[1]}.${priceMatch[2]}`);
-      // Calculate total price for this item
-      const itemTotal = itemPrice * item.quantity;
-      totalPrice += itemTotal;
-    }
-    
-    logger.info(
-      `${item.title} | ${item.quantity} | ${item.price || 'N/A'} | ${item.comparePrice || 'N/A'}`
-    );
+// Manage the pantry or log in instead of shopping when asked to
+if (process.argv[2] === 'pantry') {
+  runPantryCommand(process.argv.slice(3).filter(arg => arg !== '-v' && arg !== '--verbose'));
+} else if (process.argv[2] === 'login') {
+  login().catch(error => {
+    logger.error(`Login failed: ${error}`);
+    process.exit(1);
   });
-  
-  logger.info('-----|----------|-------|-------------');
-  logger.info(`TOTAL: ${totalPrice.toFixed(2)} kr (${cartItems.length} unique items)`);
-  logger.info('=============================');
-}
-
-// Run the main function
-shopForGroceries().catch(error => {
-  logger.error(`Unhandled error: ${error}`);
-  process.exit(1);
-}); 
\ No newline at end of file
+} else {
+  // Run the main function
+  shopForGroceries().catch(error => {
+    logger.error(`Unhandled error: ${error}`);
+    process.exit(1);
+  });
+} 
\ No newline at end of file
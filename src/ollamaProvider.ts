@@ -0,0 +1,27 @@
+import { Ollama } from 'ollama';
+import { config } from './config';
+import { ChatLlmProvider, ChatMessage, ChatOptions } from './llmProvider';
+
+/**
+ * Provider backed by a local Ollama server
+ */
+export class OllamaProvider extends ChatLlmProvider {
+  readonly name = `Ollama (${config.ollama.model})`;
+  readonly model = config.ollama.model;
+
+  private client = new Ollama({
+    host: config.ollama.url
+  });
+
+  protected async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await this.client.chat({
+      model: config.ollama.model,
+      messages,
+      stream: false,
+      format: options.format,
+      options: options.temperature !== undefined ? { temperature: options.temperature } : undefined
+    });
+
+    return response.message.content;
+  }
+}
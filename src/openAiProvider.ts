@@ -0,0 +1,58 @@
+import fetch from 'node-fetch';
+import { config } from './config';
+import { ChatLlmProvider, ChatMessage, ChatOptions } from './llmProvider';
+
+/**
+ * The parts of a chat completion response we read
+ */
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string;
+    };
+  }[];
+}
+
+/**
+ * Provider for any server with an OpenAI-compatible chat completions endpoint,
+ * such as llama.cpp, vLLM or LM Studio
+ */
+export class OpenAiProvider extends ChatLlmProvider {
+  readonly name = `OpenAI-compatible (${config.openai.model} at ${config.openai.url})`;
+  readonly model = config.openai.model;
+
+  protected async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (config.openai.apiKey) {
+      headers['Authorization'] = `Bearer ${config.openai.apiKey}`;
+    }
+
+    const response = await fetch(`${config.openai.url.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.openai.model,
+        messages,
+        temperature: options.temperature,
+        response_format: options.format
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: options.format } }
+          : undefined,
+        stream: false
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chat completion failed: HTTP ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Chat completion response has no message content');
+    }
+
+    return content;
+  }
+}
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import { config } from './config';
+import { IngredientUnit, ParsedIngredient } from './types';
+import { logger } from './logger';
+import { formatIngredient, getRequiredAmount, parseIngredient } from './ingredientParser';
+import { toGrams, toMillilitres } from './unitConversion';
+import { sameWord, toWords } from './words';
+
+/**
+ * Something we already have at home. Items without an amount always cover the recipe.
+ */
+export interface PantryItem {
+  name: string;
+  amount?: number;
+  unit?: IngredientUnit;
+}
+
+interface PantryFile {
+  items: PantryItem[];
+}
+
+/**
+ * Load the pantry, starting from the default staples if the file doesn't exist yet
+ * @returns The pantry items
+ */
+export function loadPantry(): PantryItem[] {
+  try {
+    if (fs.existsSync(config.pantry.path)) {
+      const pantry = JSON.parse(fs.readFileSync(config.pantry.path, 'utf-8')) as PantryFile;
+      return Array.isArray(pantry.items) ? pantry.items : [];
+    }
+  } catch (error) {
+    logger.error(`Could not read pantry from ${config.pantry.path}: ${error}`);
+  }
+
+  return config.pantry.defaultItems.map(name => ({ name }));
+}
+
+/**
+ * Save the pantry file
+ */
+function savePantry(items: PantryItem[]): void {
+  const pantry: PantryFile = { items };
+  fs.writeFileSync(config.pantry.path, JSON.stringify(pantry, null, 2), 'utf-8');
+}
+
+/**
+ * Check whether a pantry item covers an ingredient. Every word of the pantry item
+ * must appear as a whole word in the ingredient name, so "smör" matches
+ * "smör eller margarin" but not "smördeg".
+ * @param ingredientName The ingredient name
+ * @param pantryName The pantry item name
+ * @returns Whether they refer to the same thing
+ */
+export function matchesPantryItem(ingredientName: string, pantryName: string): boolean {
+  const ingredientWords = toWords(ingredientName);
+  const pantryWords = toWords(pantryName);
+
+  return pantryWords.length > 0 &&
+    pantryWords.every(pantryWord => ingredientWords.some(word => sameWord(word, pantryWord)));
+}
+
+/**
+ * Convert the difference between a required and an available amount into the ingredient's unit
+ * @returns The remaining amount, or undefined if the units can't be compared
+ */
+function remainingAmount(ingredient: ParsedIngredient, required: number, item: PantryItem): number | undefined {
+  if (item.amount === undefined) {
+    return 0;
+  }
+
+  if (item.unit === ingredient.unit) {
+    return required - item.amount;
+  }
+
+  // Compare volumes directly, anything else by weight
+  const requiredMl = toMillilitres(required, ingredient.unit);
+  const availableMl = toMillilitres(item.amount, item.unit);
+  if (requiredMl !== undefined && availableMl !== undefined) {
+    return (requiredMl - availableMl) / requiredMl * required;
+  }
+
+  const requiredGrams = toGrams(required, ingredient.unit, ingredient.name);
+  const availableGrams = toGrams(item.amount, item.unit, item.name);
+  if (requiredGrams !== undefined && availableGrams !== undefined && requiredGrams > 0) {
+    return (requiredGrams - availableGrams) / requiredGrams * required;
+  }
+
+  return undefined;
+}
+
+/**
+ * Remove ingredients we already have at home and subtract pantry amounts from the rest
+ * @param ingredients The shopping list
+ * @returns The ingredients that still need to be bought
+ */
+export function applyPantry(ingredients: ParsedIngredient[]): ParsedIngredient[] {
+  // Amounts are used up as ingredients draw on them
+  const pantry = loadPantry().map(item => ({ ...item }));
+  const remaining: ParsedIngredient[] = [];
+
+  for (const ingredient of ingredients) {
+    const item = pantry.find(p => matchesPantryItem(ingredient.name, p.name));
+    if (!item) {
+      remaining.push(ingredient);
+      continue;
+    }
+
+    // Used up by earlier ingredients
+    if (item.amount !== undefined && item.amount <= 0) {
+      remaining.push(ingredient);
+      continue;
+    }
+
+    // Unlimited pantry items, or ingredients without an amount, are simply covered
+    const required = getRequiredAmount(ingredient);
+    if (item.amount === undefined || required === undefined) {
+      logger.info(`Skipping "${ingredient.raw}", already in the pantry (${item.name})`);
+      continue;
+    }
+
+    const left = remainingAmount(ingredient, required, item);
+    if (left === undefined) {
+      logger.debug(`Can't compare pantry ${item.amount} ${item.unit || ''} ${item.name} with "${ingredient.raw}", buying it anyway`);
+      remaining.push(ingredient);
+      continue;
+    }
+
+    if (left <= 0) {
+      // Use up the part of the pantry amount this ingredient needed
+      item.amount = item.amount * (-left / (required - left));
+      logger.info(`Skipping "${ingredient.raw}", enough in the pantry (${item.name})`);
+      continue;
+    }
+
+    item.amount = 0;
+    const reduced: ParsedIngredient = { ...ingredient, amount: Math.round(left * 100) / 100 };
+    delete reduced.amountMax;
+    reduced.raw = formatIngredient(reduced);
+    logger.info(`Reduced "${ingredient.raw}" to "${reduced.raw}" using the pantry (${item.name})`);
+    remaining.push(reduced);
+  }
+
+  return remaining;
+}
+
+/**
+ * Handle the pantry command: "pantry list", "pantry add <item>" or "pantry remove <name>"
+ * @param args The command line arguments after "pantry"
+ */
+export function runPantryCommand(args: string[]): void {
+  const [command, ...rest] = args;
+  const text = rest.join(' ').trim();
+  const items = loadPantry();
+
+  if (command === 'add' && text) {
+    // "2 dl mjölk" stores an amount, "salt" means we always have it
+    const parsed = parseIngredient(text);
+    const item: PantryItem = { name: parsed.name };
+    if (parsed.amount !== undefined) item.amount = getRequiredAmount(parsed);
+    if (parsed.unit) item.unit = parsed.unit;
+
+    const updated = items.filter(existing => existing.name.toLowerCase() !== item.name.toLowerCase());
+    updated.push(item);
+    savePantry(updated);
+    logger.info(`Added ${formatPantryItem(item)} to the pantry`);
+    return;
+  }
+
+  if (command === 'remove' && text) {
+    const name = parseIngredient(text).name.toLowerCase();
+    const updated = items.filter(existing => existing.name.toLowerCase() !== name);
+    if (updated.length === items.length) {
+      logger.error(`"${text}" is not in the pantry`);
+      return;
+    }
+    savePantry(updated);
+    logger.info(`Removed ${name} from the pantry`);
+    return;
+  }
+
+  if (command === 'list' || command === undefined) {
+    if (items.length === 0) {
+      logger.info('The pantry is empty.');
+      return;
+    }
+    logger.info(`Pantry (${config.pantry.path}):`);
+    items.forEach(item => logger.info(`  - ${formatPantryItem(item)}`));
+    return;
+  }
+
+  logger.error('Usage: pantry list | pantry add <item> | pantry remove <name>');
+}
+
+/**
+ * Format a pantry item for display
+ */
+function formatPantryItem(item: PantryItem): string {
+  if (item.amount === undefined) {
+    return item.name;
+  }
+  return `${item.amount}${item.unit ? ` ${item.unit}` : ''} ${item.name}`;
+}
@@ -0,0 +1,66 @@
+import { config } from './config';
+import { Product } from './types';
+import { logger } from './logger';
+import { JsonStore } from './jsonStore';
+
+/**
+ * A remembered product choice for a search term
+ */
+interface ProductPreference {
+  code?: string;
+  title: string;
+  source: 'accepted' | 'corrected'; // Whether the user accepted the suggestion or picked another product
+  updatedAt: string;
+}
+
+type PreferenceStore = Record<string, ProductPreference>;
+
+const store = new JsonStore<PreferenceStore>(config.preferences.path, 'product preferences');
+
+/**
+ * Normalize a search term into a preference key
+ */
+function toKey(searchTerm: string): string {
+  return searchTerm.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the remembered product for a search term among the search results
+ * @param searchTerm The normalized search term
+ * @param products The products found for the search
+ * @returns The remembered product if it's among the results, otherwise undefined
+ */
+export function findPreferredProduct(searchTerm: string, products: Product[]): Product | undefined {
+  const preference = store.load()[toKey(searchTerm)];
+  if (!preference) {
+    return undefined;
+  }
+
+  // Match on product code when known, titles can change slightly between runs
+  const product = products.find(p => preference.code && p.code === preference.code) ||
+    products.find(p => p.title.trim().toLowerCase() === preference.title.trim().toLowerCase());
+  if (!product) {
+    logger.debug(`Remembered product "${preference.title}" for "${searchTerm}" not in the search results`);
+  }
+
+  return product;
+}
+
+/**
+ * Remember the product chosen for a search term
+ * @param searchTerm The normalized search term
+ * @param product The chosen product
+ * @param source Whether the user accepted the suggestion or picked another product
+ */
+export function rememberProductChoice(searchTerm: string, product: Product, source: ProductPreference['source']): void {
+  store.load()[toKey(searchTerm)] = {
+    code: product.code,
+    title: product.title.trim(),
+    source,
+    updatedAt: new Date().toISOString()
+  };
+
+  if (store.save()) {
+    logger.debug(`Remembered "${product.title}" for "${searchTerm}"`);
+  }
+}
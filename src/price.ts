@@ -0,0 +1,197 @@
+import { config } from './config';
+import { Price, PriceUnit, Product } from './types';
+
+/**
+ * Read an amount such as "25,90", "25.90", "25:90", "25:-" or "1 234,50" as öre
+ */
+function parseAmount(text: string): number | undefined {
+  const match = text.match(/(\d{1,3}(?:[  ]\d{3})+|\d+)(?:\s*[,.:]\s*(\d{1,2}|-{1,2}))?/);
+  if (!match) {
+    return undefined;
+  }
+
+  const kronor = parseInt(match[1].replace(/[  ]/g, ''), 10);
+  const decimals = match[2] && /\d/.test(match[2]) ? match[2].padEnd(2, '0') : '00';
+  return kronor * 100 + parseInt(decimals, 10);
+}
+
+/**
+ * Read the price unit from text such as "kr/kg", "/l" or "kg"
+ */
+function parseUnit(text?: string): PriceUnit | undefined {
+  const match = text?.toLowerCase().match(/(?:\/\s*|\bper\s+|^\s*)(st|kg|l|liter)\b/);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] === 'st' ? 'st' : match[1] === 'kg' ? 'kg' : 'l';
+}
+
+/**
+ * Parse a price in any of the formats the site shows, e.g. "25,90 kr", "25 kr",
+ * "51,80 kr/kg", "2 för 40 kr" or "Medlemspris 19,90 kr"
+ * @param text The price text
+ * @param unit The price unit if it isn't part of the text, e.g. "kr/kg"
+ * @returns The price, or undefined if there is no amount in the text
+ */
+export function parsePrice(text: string | undefined, unit?: string): Price | undefined {
+  if (!text) {
+    return undefined;
+  }
+
+  const memberOnly = /medlem|klubb|stammis/i.test(text) || undefined;
+  const priceUnit = parseUnit(text) ?? parseUnit(unit) ?? 'st';
+
+  // "2 för 40 kr" is a multi-buy offer, its unit price is the average
+  const multiBuyMatch = text.match(/(\d+)\s*(?:för|st\s+för|for)\s*(.+)$/i);
+  if (multiBuyMatch) {
+    const quantity = parseInt(multiBuyMatch[1], 10);
+    const amount = parseAmount(multiBuyMatch[2]);
+    if (quantity > 0 && amount !== undefined) {
+      return {
+        amount: Math.round(amount / quantity),
+        currency: 'SEK',
+        unit: priceUnit,
+        multiBuy: { quantity, amount },
+        memberOnly
+      };
+    }
+  }
+
+  const amount = parseAmount(text);
+  if (amount === undefined) {
+    return undefined;
+  }
+
+  return { amount, currency: 'SEK', unit: priceUnit, memberOnly };
+}
+
+/**
+ * Purchase limits such as "Max 2 köp/hushåll", whose numbers aren't prices
+ */
+const PURCHASE_LIMIT = /max\.?\s*\d+\s*(?:st|köp|förp)?(?:\s*\/\s*(?:hushåll|kund))?/gi;
+
+/**
+ * Parse a campaign label into an offer price. Understands "Köp 3 betala för 2" and
+ * "3 för 2", "Spara 10 kr", percentage discounts such as "-25%", prices such as
+ * "2 för 40 kr" or "19,90 kr", and "Klipp" deals, which are coupons for club members.
+ * @param label The campaign label
+ * @param regular The regular price, needed for offers that don't state an amount
+ * @param unit The price unit if it isn't part of the label, e.g. "kr/kg"
+ * @returns The offer price with the label, or undefined if the label isn't an offer we understand
+ */
+export function parseOffer(label: string | undefined, regular: Price | undefined, unit?: string): Price | undefined {
+  if (!label) {
+    return undefined;
+  }
+
+  const memberOnly = /klipp|medlem|klubb|stammis/i.test(label) || undefined;
+  const text = label.replace(PURCHASE_LIMIT, ' ');
+  const hasCurrency = /kr\b|:-/i.test(text);
+  let offer: Price | undefined;
+
+  // "3 för 2" without a currency is a pay-for deal, "2 för 40 kr" a multi-buy price
+  const payForMatch = text.match(/köp\s*(\d+)\s*(?:st\s*)?,?\s*betala\s*(?:för\s*)?(\d+)/i) ||
+    (hasCurrency ? null : text.match(/(\d+)\s*för\s*(\d+)(?!\s*[,.:\d])/i));
+  const savingMatch = text.match(/spara\s*(\d[\d  ]*(?:[,.:]\s*(?:\d{1,2}|-{1,2}))?)\s*(?:kr|:-)/i);
+  const percentMatch = text.match(/(\d+)\s*%/);
+  if (payForMatch) {
+    // Only the paid pieces cost anything, the rest are free
+    const quantity = parseInt(payForMatch[1], 10);
+    const paid = parseInt(payForMatch[2], 10);
+    if (regular && quantity > paid && paid > 0) {
+      const amount = paid * regular.amount;
+      offer = { amount: Math.round(amount / quantity), currency: 'SEK', unit: regular.unit, multiBuy: { quantity, amount }, memberOnly };
+    }
+  } else if (savingMatch) {
+    // The saving comes off the regular price
+    const saving = parseAmount(savingMatch[1]);
+    if (regular && saving !== undefined && saving > 0 && saving < regular.amount) {
+      offer = { amount: regular.amount - saving, currency: 'SEK', unit: regular.unit, memberOnly };
+    }
+  } else if (percentMatch && !hasCurrency) {
+    const percent = parseInt(percentMatch[1], 10);
+    if (regular && percent > 0 && percent < 100) {
+      offer = { amount: Math.round(regular.amount * (100 - percent) / 100), currency: 'SEK', unit: regular.unit, memberOnly };
+    }
+  } else if (hasCurrency) {
+    offer = parsePrice(text, unit);
+    if (offer) {
+      offer.memberOnly = offer.memberOnly || memberOnly;
+    }
+  }
+
+  if (!offer) {
+    return undefined;
+  }
+  offer.regularAmount = regular?.amount;
+  offer.label = label.replace(/\s+/g, ' ').trim();
+  return offer;
+}
+
+/**
+ * Format an amount in öre for display
+ * @param amount The amount in öre
+ * @returns Text such as "25,90 kr"
+ */
+export function formatPrice(amount: number): string {
+  return `${(amount / 100).toFixed(2).replace('.', ',')} kr`;
+}
+
+/**
+ * Describe a price's offer terms for display
+ * @param price The price
+ * @returns Text such as "2 för 40,00 kr (members only)" or the label the site shows, or undefined without an offer
+ */
+export function describeOffer(price: Price | undefined): string | undefined {
+  if (!price?.multiBuy && !price?.memberOnly && !price?.label) {
+    return undefined;
+  }
+  const terms = price.label || (price.multiBuy
+    ? `${price.multiBuy.quantity} för ${formatPrice(price.multiBuy.amount)}`
+    : `${formatPrice(price.amount)}/${price.unit}`);
+  return price.memberOnly ? `${terms} (members only)` : terms;
+}
+
+/**
+ * Get the price that applies to us: the member price for club members, otherwise the regular price
+ * @param product The product
+ * @returns The price, or undefined if the product has none
+ */
+export function getEffectivePrice(product: Product): Price | undefined {
+  if (config.pricing.isMember && product.memberPrice) {
+    return product.memberPrice;
+  }
+  return product.parsedPrice;
+}
+
+/**
+ * Get the compare price (per kg, l or piece) with the offer that applies to us
+ * taken off, so products on offer compare fairly with the rest
+ * @param product The product
+ * @returns The compare price, or undefined if the product has none
+ */
+export function getEffectiveComparePrice(product: Product): Price | undefined {
+  const comparePrice = product.parsedComparePrice ?? parsePrice(product.comparePrice);
+  const price = getEffectivePrice(product);
+  if (!comparePrice || !price?.regularAmount || price.amount >= price.regularAmount) {
+    return comparePrice;
+  }
+  return { ...comparePrice, amount: Math.round(comparePrice.amount * price.amount / price.regularAmount) };
+}
+
+/**
+ * Calculate the cost of a quantity at a price, applying multi-buy offers to full groups
+ * @param price The price
+ * @param quantity Pieces, or kg/l for prices per kg/l
+ * @returns The cost in öre
+ */
+export function calculateCost(price: Price, quantity: number): number {
+  if (price.multiBuy && Number.isInteger(quantity)) {
+    const groups = Math.floor(quantity / price.multiBuy.quantity);
+    const rest = quantity - groups * price.multiBuy.quantity;
+    // Pieces outside a full group cost the regular price when we know it
+    const restPrice = price.regularAmount ?? price.amount;
+    return groups * price.multiBuy.amount + rest * restPrice;
+  }
+  return Math.round(price.amount * quantity);
+}
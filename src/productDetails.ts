@@ -0,0 +1,68 @@
+import { config } from './config';
+import { Product, ProductDetails } from './types';
+import { logger } from './logger';
+import { fetchProductDetails } from './hemkopApi';
+import { JsonStore } from './jsonStore';
+
+/**
+ * Cached product page details, keyed by product code
+ */
+interface CachedDetails {
+  fetchedAt: string;
+  details: ProductDetails;
+}
+
+type DetailStore = Record<string, CachedDetails>;
+
+const store = new JsonStore<DetailStore>(config.enrichment.cachePath, 'product details cache');
+
+/**
+ * Get the details of a product, from the cache while they are fresh
+ */
+async function getProductDetails(code: string): Promise<ProductDetails | null> {
+  const cache = store.load();
+  const cached = cache[code];
+  const maxAge = config.enrichment.maxAgeDays * 24 * 60 * 60 * 1000;
+  if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < maxAge) {
+    return cached.details;
+  }
+
+  const details = await fetchProductDetails(code);
+  if (details) {
+    cache[code] = { fetchedAt: new Date().toISOString(), details };
+    store.save();
+  }
+  return details;
+}
+
+/**
+ * Copy product page details onto a product, keeping what the search already told us
+ */
+function applyDetails(product: Product, details: ProductDetails): void {
+  product.brand = product.brand || details.brand;
+  product.originCountry = details.originCountry;
+  product.labels = Array.from(new Set([...(product.labels || []), ...(details.labels || [])]));
+  product.allergens = details.allergens;
+  product.ingredients = details.ingredients;
+  product.nutrition = details.nutrition;
+  product.detailsLoaded = true;
+}
+
+/**
+ * Read the product pages of the top search results, so labels, allergens and
+ * ingredients can be checked and shown to the LLM
+ * @param products The search results, best first
+ * @param count How many of the top results to enrich
+ */
+export async function enrichProducts(products: Product[], count: number = config.enrichment.topCandidates): Promise<void> {
+  const candidates = products.slice(0, count).filter(product => product.code && !product.detailsLoaded);
+
+  for (const product of candidates) {
+    const details = await getProductDetails(product.code!);
+    if (details) {
+      applyDetails(product, details);
+    }
+  }
+
+  logger.debug(`Read product details for ${candidates.filter(product => product.detailsLoaded).length} of ${candidates.length} products`);
+}
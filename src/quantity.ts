@@ -0,0 +1,126 @@
+import { config } from './config';
+import { ParsedIngredient, Product } from './types';
+import { logger } from './logger';
+import { calculateCost, describeOffer, getEffectivePrice } from './price';
+import { getRequiredAmount } from './ingredientParser';
+import { getIngredientWeightInGrams, isPackageCount, parsePackageSize, formatWeight } from './unitConversion';
+
+/**
+ * Calculate how many of a product are needed for a shopping list item
+ * @param product The selected product
+ * @param shoppingListItem The shopping list item
+ * @returns The number of packages or pieces to buy, at least 1 and rounded up to a
+ * multi-buy offer when the extra pieces are free, or the kg to order for loose-weight
+ * products the site sells by weight
+ */
+export function calculateOptimalQuantity(product: Product, shoppingListItem: ParsedIngredient): number {
+  // Loose-weight products priced per kg are ordered by weight or by the piece
+  if (product.sellingUnit === 'kg') {
+    return calculateLooseWeightQuantity(product, shoppingListItem);
+  }
+
+  return roundUpForOffer(product, calculateRequiredQuantity(product, shoppingListItem));
+}
+
+/**
+ * Calculate how many packages or pieces cover a shopping list item
+ */
+function calculateRequiredQuantity(product: Product, shoppingListItem: ParsedIngredient): number {
+  // "2 burkar" or "1 paket" is already a package count
+  if (isPackageCount(shoppingListItem)) {
+    const packages = Math.ceil(getRequiredAmount(shoppingListItem) ?? 1);
+    logger.debug(`Shopping list asks for ${packages} packages`);
+    return Math.max(1, packages);
+  }
+
+  // Extract weight information
+  const { unitWeight, requiredWeight } = extractWeightInformation(product, shoppingListItem);
+
+  // If we don't have enough information, buy a single package
+  if (unitWeight === 0 || requiredWeight === 0) {
+    return 1;
+  }
+
+  // Small tolerance so conversion rounding doesn't add an extra package
+  const optimalQuantity = Math.max(1, Math.ceil(requiredWeight / unitWeight - 0.001));
+  logger.debug(`Optimal quantity to reach ${formatWeight(requiredWeight)} is ${optimalQuantity} (${formatWeight(optimalQuantity * unitWeight)})`);
+
+  return optimalQuantity;
+}
+
+/**
+ * Round a quantity up to fill a multi-buy offer when that costs no more,
+ * e.g. 3 cans instead of 2 when the third is free
+ * @param product The product
+ * @param quantity The quantity the shopping list needs
+ * @returns The quantity to buy
+ */
+function roundUpForOffer(product: Product, quantity: number): number {
+  const price = getEffectivePrice(product);
+  if (!price?.multiBuy || price.unit === 'kg' || quantity % price.multiBuy.quantity === 0) {
+    return quantity;
+  }
+
+  const rounded = Math.ceil(quantity / price.multiBuy.quantity) * price.multiBuy.quantity;
+  if (calculateCost(price, rounded) > calculateCost(price, quantity)) {
+    return quantity;
+  }
+
+  logger.decision(`Buying ${rounded} instead of ${quantity} of ${product.title} for the offer ${describeOffer(price)}, at no extra cost`);
+  return rounded;
+}
+
+/**
+ * Calculate the order for a loose-weight product priced per kg
+ * @param product The selected product
+ * @param shoppingListItem The shopping list item
+ * @returns The kg to order if the site takes weights, otherwise the number of pieces
+ */
+function calculateLooseWeightQuantity(product: Product, shoppingListItem: ParsedIngredient): number {
+  const requiredWeight = getIngredientWeightInGrams(shoppingListItem);
+  const step = config.looseWeight.kgStep;
+
+  if (product.orderByWeight) {
+    // Round up to the weight steps the site accepts
+    const requiredKg = requiredWeight > 0 ? requiredWeight / 1000 : config.looseWeight.defaultKg;
+    const kg = Math.round(Math.max(step, Math.ceil(requiredKg / step - 0.001) * step) * 1000) / 1000;
+    logger.debug(`Ordering ${kg} kg of ${product.title} by weight`);
+    return kg;
+  }
+
+  // Counted items ("6 bananer") are bought as that many pieces
+  const amount = getRequiredAmount(shoppingListItem);
+  if (amount !== undefined && (!shoppingListItem.unit || shoppingListItem.unit === 'st')) {
+    return Math.max(1, Math.ceil(amount));
+  }
+
+  if (requiredWeight > 0 && product.pieceWeight) {
+    const pieces = Math.max(1, Math.ceil(requiredWeight / product.pieceWeight - 0.001));
+    logger.debug(`${formatWeight(requiredWeight)} of ${product.title} is about ${pieces} pieces of ${formatWeight(product.pieceWeight)}`);
+    return pieces;
+  }
+
+  return 1;
+}
+
+/**
+ * Extract unit weight and required weight from product and shopping list
+ * @param product The product to extract weight from
+ * @param shoppingListItem The shopping list item to extract required weight from
+ * @returns Object containing unitWeight and requiredWeight in grams
+ */
+function extractWeightInformation(product: Product, shoppingListItem: ParsedIngredient): {unitWeight: number, requiredWeight: number} {
+  // Extract weight from display volume, converting litres and pieces
+  const unitWeight = parsePackageSize(product.displayVolume, product.title);
+  if (unitWeight > 0) {
+    logger.debug(`Each ${product.title} weighs approximately ${formatWeight(unitWeight)}`);
+  }
+
+  // Get the required weight from the parsed shopping list item
+  const requiredWeight = getIngredientWeightInGrams(shoppingListItem);
+  if (requiredWeight > 0) {
+    logger.debug(`Shopping list requires approximately ${formatWeight(requiredWeight)}`);
+  }
+
+  return { unitWeight, requiredWeight };
+}
@@ -0,0 +1,238 @@
+import { chromium, Page } from 'playwright';
+import { logger } from './logger';
+import { config } from './config';
+
+/**
+ * Known ingredient list selectors for the supported recipe sites.
+ * Only consulted for domains listed in config.recipeParser.supportedSites.
+ */
+const SITE_SELECTORS: Record<string, string[]> = {
+  'ica.se': [
+    '.ingredients-list-group__card__ingr',
+    '.ingredients__list__item',
+    '[data-test="ingredient-row"]'
+  ],
+  'coop.se': [
+    '.IngredientList-item',
+    '[data-test="ingredient"]',
+    '.Ingredients li'
+  ],
+  'koket.se': [
+    '[data-testid="ingredient"]',
+    '.ingredients-list li',
+    '.ingredient-row'
+  ],
+  'recepten.se': [
+    '.recipe-ingredients li',
+    '.ingredients li'
+  ],
+  'tasteline.com': [
+    '.ingredient-list li',
+    '.recipe-ingredients li',
+    '.ingredient'
+  ]
+};
+
+/**
+ * Generic selectors for microdata markup of recipe ingredients
+ */
+const MICRODATA_SELECTORS = [
+  '[itemprop="recipeIngredient"]',
+  '[itemprop="ingredients"]'
+];
+
+/**
+ * Generic selectors based on common CSS class naming patterns
+ */
+const CLASS_PATTERN_SELECTORS = [
+  'li[class*="ingredient" i]',
+  '[class*="ingredient" i] li',
+  '[class*="ingrediens" i] li',
+  '[class*="ingredienser" i] li'
+];
+
+/**
+ * Extract ingredients from a recipe URL using HTML heuristics.
+ * Used as a fallback for recipe sites without JSON-LD data.
+ * @param url The recipe URL to extract ingredients from
+ * @returns Array of ingredient strings
+ */
+export async function extractIngredientsFromUrl(url: string): Promise<string[]> {
+  logger.info(`Extracting ingredients using HTML heuristics from URL: ${url}`);
+
+  let browser = null;
+
+  try {
+    logger.debug('Launching browser for HTML extraction...');
+    browser = await chromium.launch({
+      headless: true
+    });
+
+    const context = await browser.newContext();
+    const page = await context.newPage();
+
+    try {
+      logger.debug(`Navigating to ${url}...`);
+      await page.goto(url, {
+        timeout: config.recipeParser.timeout,
+        waitUntil: 'networkidle'
+      });
+
+      const ingredients = await findIngredients(page, url);
+
+      if (ingredients.length === 0) {
+        logger.error('No ingredient list found in the page HTML');
+        return [];
+      }
+
+      logger.info(`Extracted ${ingredients.length} ingredients from HTML:`);
+      ingredients.forEach(ingredient => logger.info(`  - ${ingredient}`));
+
+      return ingredients;
+    } finally {
+      logger.debug('Closing browser...');
+      if (browser) await browser.close();
+      logger.debug('Browser closed');
+    }
+  } catch (error) {
+    logger.error(`Error extracting ingredients from URL: ${error}`);
+    if (browser) {
+      try {
+        await browser.close();
+        logger.debug('Browser closed after error');
+      } catch (closeError) {
+        logger.error(`Error closing browser: ${closeError}`);
+      }
+    }
+    return [];
+  }
+}
+
+/**
+ * Try each extraction strategy in order of reliability and return the first hit
+ */
+async function findIngredients(page: Page, url: string): Promise<string[]> {
+  const siteSelectors = getSiteSelectors(url);
+  if (siteSelectors.length > 0) {
+    logger.debug(`Trying ${siteSelectors.length} site-specific selectors...`);
+    const ingredients = cleanIngredients(await extractBySelectors(page, siteSelectors));
+    if (ingredients.length > 0) {
+      logger.debug(`Found ${ingredients.length} ingredients with site-specific selectors`);
+      return ingredients;
+    }
+  }
+
+  logger.debug('Looking for microdata ingredients...');
+  let ingredients = cleanIngredients(await extractBySelectors(page, MICRODATA_SELECTORS));
+  if (ingredients.length > 0) {
+    logger.debug(`Found ${ingredients.length} ingredients in microdata`);
+    return ingredients;
+  }
+
+  logger.debug('Looking for ingredients by CSS class patterns...');
+  ingredients = cleanIngredients(await extractBySelectors(page, CLASS_PATTERN_SELECTORS));
+  if (ingredients.length > 0) {
+    logger.debug(`Found ${ingredients.length} ingredients by CSS class patterns`);
+    return ingredients;
+  }
+
+  logger.debug('Looking for lists under "Ingredienser" headings...');
+  ingredients = cleanIngredients(await extractFromIngredientHeadings(page));
+  if (ingredients.length > 0) {
+    logger.debug(`Found ${ingredients.length} ingredients under headings`);
+  }
+
+  return ingredients;
+}
+
+/**
+ * Get the site-specific selectors for a URL, if its domain is supported
+ */
+function getSiteSelectors(url: string): string[] {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return [];
+  }
+
+  const site = config.recipeParser.supportedSites.find(domain =>
+    hostname === domain || hostname.endsWith(`.${domain}`)
+  );
+
+  return site ? SITE_SELECTORS[site] || [] : [];
+}
+
+/**
+ * Return the text of the elements matching the first selector that matches anything
+ */
+async function extractBySelectors(page: Page, selectors: string[]): Promise<string[]> {
+  return page.evaluate((selectorList: string[]) => {
+    for (const selector of selectorList) {
+      let elements: Element[];
+      try {
+        elements = Array.from(document.querySelectorAll(selector));
+      } catch (e) {
+        // Ignore selectors the browser doesn't support
+        continue;
+      }
+
+      // Skip containers that wrap other matches, keep the innermost elements
+      const texts = elements
+        .filter(element => !elements.some(other => other !== element && element.contains(other)))
+        .map(element => (element as HTMLElement).innerText || element.textContent || '');
+
+      if (texts.some(text => text.trim().length > 0)) {
+        return texts;
+      }
+    }
+    return [];
+  }, selectors);
+}
+
+/**
+ * Find headings such as "Ingredienser" and read the list items that follow them
+ */
+async function extractFromIngredientHeadings(page: Page): Promise<string[]> {
+  return page.evaluate(() => {
+    const headingPattern = /^\s*(ingredienser|ingredients)\b/i;
+    const candidates = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6, strong, b, p, span, div'))
+      .filter(element => element.children.length <= 1 && headingPattern.test(element.textContent || ''));
+
+    for (const heading of candidates) {
+      // Walk forward from the heading (and its ancestors) until a list shows up
+      let current: Element | null = heading;
+      for (let depth = 0; current && depth < 3; depth++) {
+        let sibling = current.nextElementSibling;
+        while (sibling) {
+          const list = sibling.matches('ul, ol') ? sibling : sibling.querySelector('ul, ol');
+          if (list) {
+            const items = Array.from(list.querySelectorAll('li'))
+              .map(item => (item as HTMLElement).innerText || item.textContent || '');
+            if (items.length > 0) {
+              return items;
+            }
+          }
+          // Stop at the next heading, the list belongs to another section
+          if (sibling.matches('h1, h2, h3, h4, h5, h6')) {
+            break;
+          }
+          sibling = sibling.nextElementSibling;
+        }
+        current = current.parentElement;
+      }
+    }
+    return [];
+  });
+}
+
+/**
+ * Normalize whitespace and drop empty entries. Repeated lines are kept, a recipe
+ * may list the same ingredient for different parts of the dish.
+ */
+function cleanIngredients(ingredients: string[]): string[] {
+  return ingredients
+    .map(ingredient => ingredient.replace(/\s+/g, ' ').trim())
+    .filter(ingredient => ingredient.length > 0 && ingredient.length < 200);
+}
+
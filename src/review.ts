@@ -0,0 +1,72 @@
+import * as readline from 'readline/promises';
+import { ParsedIngredient, Product } from './types';
+import { logger } from './logger';
+
+/**
+ * What the user decided for a product choice during interactive review
+ */
+export type ReviewDecision =
+  | { action: 'accept'; product: Product }
+  | { action: 'select'; product: Product }
+  | { action: 'search'; searchTerm: string }
+  | { action: 'skip' };
+
+/**
+ * Show the candidate products with the recommendation highlighted and ask the user what to do
+ * @param products The candidate products
+ * @param recommended The product recommended by the LLM, if any
+ * @param shoppingListItem The shopping list item being processed
+ * @returns The user's decision
+ */
+export async function reviewSelection(
+  products: Product[],
+  recommended: Product | null,
+  shoppingListItem: ParsedIngredient
+): Promise<ReviewDecision> {
+  const candidates = products.map((product, index) => {
+    const marker = product === recommended ? '👉' : '  ';
+    const details = [product.price, product.comparePrice, product.displayVolume].filter(Boolean).join(' | ');
+    const label = product === recommended ? ' (recommended)' : '';
+    return `${marker} ${index + 1}. ${product.title}${label}${details ? ` - ${details}` : ''}`;
+  });
+  logger.product(`Review: ${shoppingListItem.raw}\n\n${candidates.length > 0 ? candidates.join('\n') : '   No products found'}`);
+
+  const hints = [
+    recommended ? '[Enter] accept' : '',
+    products.length > 0 ? `[1-${products.length}] choose product` : '',
+    '[s <term>] search again',
+    '[x] skip'
+  ].filter(Boolean);
+  const question = `\n${hints.join(', ')}: `;
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    // Ask until the answer can be understood
+    while (true) {
+      const answer = (await rl.question(question)).trim();
+
+      if (answer === '' && recommended) {
+        return { action: 'accept', product: recommended };
+      }
+
+      if (answer.toLowerCase() === 'x') {
+        return { action: 'skip' };
+      }
+
+      const searchMatch = answer.match(/^s\s+(.+)$/i);
+      if (searchMatch) {
+        return { action: 'search', searchTerm: searchMatch[1].trim() };
+      }
+
+      const index = parseInt(answer, 10) - 1;
+      if (/^\d+$/.test(answer) && index >= 0 && index < products.length) {
+        const product = products[index];
+        return product === recommended ? { action: 'accept', product } : { action: 'select', product };
+      }
+
+      logger.error(`Didn't understand "${answer}"`);
+    }
+  } finally {
+    rl.close();
+  }
+}
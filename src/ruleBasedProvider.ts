@@ -0,0 +1,107 @@
+import { ParsedIngredient, Product } from './types';
+import { LlmProvider, ProductChoice } from './llmProvider';
+import { parseIngredient } from './ingredientParser';
+import { getEffectiveComparePrice } from './price';
+import { toWords, wordForms } from './words';
+
+/**
+ * Check whether a title word matches an ingredient word, allowing plural endings
+ * and compounds ending in the word ("körsbärstomater" matches "tomater"). Only the
+ * last part of a compound names the product, so "äggnudlar" doesn't match "ägg".
+ */
+function wordMatches(titleWord: string, word: string): boolean {
+  const titleForms = wordForms(titleWord, 3);
+  return wordForms(word, 3).some(form =>
+    titleForms.some(titleForm => titleForm === form || (form.length >= 3 && titleForm.endsWith(form)))
+  );
+}
+
+/**
+ * Count the ingredient words that appear in a product title
+ */
+function countMatchingWords(words: string[], title: string): number {
+  const titleWords = toWords(title, 2);
+  return words.filter(word => titleWords.some(titleWord => wordMatches(titleWord, word))).length;
+}
+
+/**
+ * Score how well a product title matches an ingredient by the words they share
+ * @param ingredientName The ingredient name (e.g. "krossade tomater")
+ * @param title The product title
+ * @returns The share of ingredient words found in the title, 0-1
+ */
+export function titleMatchScore(ingredientName: string, title: string): number {
+  const words = toWords(ingredientName, 2);
+  return words.length > 0 ? countMatchingWords(words, title) / words.length : 0;
+}
+
+/**
+ * Check whether a product title names the same kind of product as the ingredient:
+ * every ingredient word is a title word or the last part of a compound, so
+ * "körsbärstomater" are tomatoes but "äggnudlar" aren't eggs
+ * @param ingredientName The ingredient name (e.g. "krossade tomater")
+ * @param title The product title
+ * @returns Whether the title is the ingredient, not just related to it
+ */
+export function isSameKind(ingredientName: string, title: string): boolean {
+  const words = toWords(ingredientName, 2);
+  return words.length > 0 && countMatchingWords(words, title) === words.length;
+}
+
+/**
+ * Deterministic provider that works without any LLM. Picks the product whose
+ * title shares the most words with the ingredient, then the lowest compare price.
+ */
+export class RuleBasedProvider implements LlmProvider {
+  readonly name = 'rule-based';
+  readonly model = 'rule-based';
+
+  async selectProduct(shoppingListItem: ParsedIngredient, products: Product[]): Promise<ProductChoice> {
+    const words = toWords(shoppingListItem.name, 2);
+
+    const scored = products.map((product, index) => ({
+      index,
+      product,
+      matches: countMatchingWords(words, product.title),
+      comparePrice: getEffectiveComparePrice(product)?.amount ?? Number.POSITIVE_INFINITY
+    }));
+
+    // Most matching words first, in stock before out of stock, then cheapest per kg/l
+    scored.sort((a, b) =>
+      b.matches - a.matches ||
+      Number(b.product.inStock !== false) - Number(a.product.inStock !== false) ||
+      a.comparePrice - b.comparePrice ||
+      a.index - b.index
+    );
+
+    const best = scored[0];
+    if (!best) {
+      return { index: null, confidence: 1, reasoning: 'No products to choose from' };
+    }
+
+    // A title sharing no words with the ingredient is the wrong kind of product
+    if (best.matches === 0) {
+      return { index: null, confidence: 1, reasoning: `No product title mentions "${shoppingListItem.name}"` };
+    }
+
+    const priceText = Number.isFinite(best.comparePrice) ? `, compare price ${best.product.comparePrice}` : '';
+    return {
+      index: best.index,
+      confidence: words.length > 0 ? best.matches / words.length : 0,
+      reasoning: `"${best.product.title}" matches ${best.matches} of ${words.length} words in "${shoppingListItem.name}"${priceText}`
+    };
+  }
+
+  async normalizeIngredients(ingredients: string[]): Promise<string[]> {
+    return ingredients.map(ingredient => {
+      // Drop amounts, units and preparation notes, then keep the first alternative ("smör eller margarin")
+      const name = parseIngredient(ingredient).name.toLowerCase();
+      return name.split(/\s+(?:eller|och|alt\.?)\s+|\//)[0].trim() || ingredient;
+    });
+  }
+
+  async suggestSearchTerms(): Promise<string[]> {
+    // The reformulation rules are all there is without an LLM
+    return [];
+  }
+}
@@ -0,0 +1,194 @@
+import { config } from './config';
+import { ParsedIngredient, Product } from './types';
+import { logger } from './logger';
+import { searchProducts } from './hemkopApi';
+import { suggestSearchTerms } from './llm';
+import { titleMatchScore } from './ruleBasedProvider';
+import { ADJECTIVES } from './words';
+
+/**
+ * Broader searches for ingredients the store rarely names in product titles
+ */
+const PARENT_CATEGORIES: Record<string, string> = {
+  'saffran': 'kryddor',
+  'kardemumma': 'kryddor',
+  'kanel': 'kryddor',
+  'spiskummin': 'kryddor',
+  'koriander': 'färska kryddor',
+  'dill': 'färska kryddor',
+  'persilja': 'färska kryddor',
+  'basilika': 'färska kryddor',
+  'schalottenlök': 'lök',
+  'rödlök': 'lök',
+  'vitlök': 'lök',
+  'körsbärstomater': 'tomater',
+  'kycklingfilé': 'kyckling',
+  'kycklinglårfilé': 'kyckling',
+  'parmesan': 'hårdost',
+  'pecorino': 'hårdost',
+  'mozzarella': 'ost',
+  'fetaost': 'ost',
+  'vispgrädde': 'grädde',
+  'matlagningsgrädde': 'grädde'
+};
+
+/**
+ * Common product words, used to find the head of a compound ("vispgrädde" -> "grädde")
+ */
+const COMPOUND_HEADS = [
+  'grädde', 'mjölk', 'ost', 'yoghurt', 'lök', 'tomater', 'tomat', 'filé', 'färs', 'mjöl', 'socker',
+  'bröd', 'korv', 'skinka', 'bönor', 'ris', 'pasta', 'sås', 'buljong', 'vinäger', 'senap', 'olja',
+  'svamp', 'sallad', 'kål', 'bär', 'fisk', 'kyckling', 'nudlar', 'kryddor'
+];
+
+/**
+ * Singular and plural forms of ingredients often bought by the piece. Words such as
+ * "koriander" or "socker" only look like plurals, so the forms aren't guessed from endings.
+ */
+const PLURAL_FORMS: [string, string][] = [
+  ['lök', 'lökar'], ['tomat', 'tomater'], ['gurka', 'gurkor'], ['morot', 'morötter'],
+  ['paprika', 'paprikor'], ['banan', 'bananer'], ['citron', 'citroner'], ['apelsin', 'apelsiner'],
+  ['äpple', 'äpplen'], ['avokado', 'avokador'], ['champinjon', 'champinjoner'],
+  ['rödbeta', 'rödbetor'], ['palsternacka', 'palsternackor'], ['böna', 'bönor'], ['ärta', 'ärtor'],
+  ['chilifrukt', 'chilifrukter'], ['klyfta', 'klyftor'], ['filé', 'filéer'], ['jordgubbe', 'jordgubbar'],
+  ['squash', 'squashar'], ['aubergine', 'auberginer'], ['kålrot', 'kålrötter'], ['limefrukt', 'limefrukter']
+];
+
+/**
+ * Replace accented letters that product titles usually spell without accents
+ */
+function foldAccents(term: string): string {
+  return term.replace(/[èéêë]/g, 'e').replace(/[àáâ]/g, 'a').replace(/[ìíî]/g, 'i').replace(/[òóô]/g, 'o').replace(/[ùúû]/g, 'u');
+}
+
+/**
+ * Get the singular or plural form of the last word, when it is a known ingredient
+ * or a compound ending in one ("rödlökar" -> "rödlök")
+ */
+function numberVariant(term: string): string | undefined {
+  const words = term.split(' ');
+  const last = words[words.length - 1];
+
+  let variant: string | undefined;
+  const plural = PLURAL_FORMS.find(([, pluralForm]) => last.endsWith(pluralForm));
+  const singular = PLURAL_FORMS.find(([singularForm]) => last.endsWith(singularForm));
+  if (plural) {
+    variant = last.slice(0, -plural[1].length) + plural[0];
+  } else if (singular) {
+    variant = last.slice(0, -singular[0].length) + singular[1];
+  }
+
+  return variant && variant !== last ? [...words.slice(0, -1), variant].join(' ') : undefined;
+}
+
+/**
+ * Get a broader search for the term, from the known categories or the compound head
+ */
+function parentCategory(term: string): string | undefined {
+  const last = term.split(' ').pop() || term;
+  if (PARENT_CATEGORIES[term]) return PARENT_CATEGORIES[term];
+  if (PARENT_CATEGORIES[last]) return PARENT_CATEGORIES[last];
+
+  const head = COMPOUND_HEADS.find(candidate => last.length > candidate.length + 2 && last.endsWith(candidate));
+  return head;
+}
+
+/**
+ * Get alternative searches for a term, most specific first
+ * @param searchTerm The search term that gave no or poor results
+ * @returns The reformulated searches, without the original term
+ */
+export function getReformulations(searchTerm: string): string[] {
+  const term = searchTerm.toLowerCase().replace(/\s+/g, ' ').trim();
+  const candidates: (string | undefined)[] = [];
+
+  candidates.push(foldAccents(term));
+
+  // Drop descriptive words, keeping at least one word
+  const words = term.split(' ');
+  const nouns = words.filter(word => !ADJECTIVES.includes(word));
+  const base = nouns.length > 0 ? nouns.join(' ') : term;
+  candidates.push(base);
+
+  candidates.push(numberVariant(base));
+
+  // Just the last word, which carries the meaning in Swedish ("grekisk yoghurt" -> "yoghurt")
+  candidates.push(words[words.length - 1]);
+
+  candidates.push(parentCategory(base));
+
+  return Array.from(new Set(candidates.filter((candidate): candidate is string => !!candidate && candidate !== term)));
+}
+
+/**
+ * Check whether any search result looks like the ingredient or the query
+ */
+function hasRelevantResults(products: Product[], shoppingListItem: ParsedIngredient, query: string): boolean {
+  return products.some(product =>
+    titleMatchScore(shoppingListItem.name, product.title) > 0 || titleMatchScore(query, product.title) > 0
+  );
+}
+
+/**
+ * The outcome of a search with reformulations
+ */
+export interface ReformulatedSearch {
+  searchTerm: string; // The search the products came from
+  products: Product[];
+}
+
+/**
+ * Search for a shopping list item, trying reformulated searches when the results
+ * are empty or unrelated. Stops at the first search with relevant results.
+ * @param shoppingListItem The shopping list item
+ * @param searchTerm The normalized search term
+ * @returns The search that was used and its products. Falls back to the first
+ * search with any results if none looked relevant.
+ */
+export async function searchWithReformulations(shoppingListItem: ParsedIngredient, searchTerm: string): Promise<ReformulatedSearch> {
+  const tried: string[] = [];
+  let firstResults: ReformulatedSearch | undefined;
+
+  // Search for a query and return the results if they look relevant
+  const trySearch = async (query: string): Promise<ReformulatedSearch | undefined> => {
+    if (tried.includes(query)) {
+      return undefined;
+    }
+    tried.push(query);
+
+    const products = await searchProducts(query);
+    if (hasRelevantResults(products, shoppingListItem, query)) {
+      return { searchTerm: query, products };
+    }
+
+    logger.debug(`No relevant results for "${query}" (${products.length} products)`);
+    if (products.length > 0 && !firstResults) {
+      firstResults = { searchTerm: query, products };
+    }
+    return undefined;
+  };
+
+  // The original search, then the rule-based reformulations, then the LLM's suggestions, which are the slowest
+  const queries = [searchTerm, ...getReformulations(searchTerm).slice(0, config.searchRetry.maxReformulations)];
+  let found: ReformulatedSearch | undefined;
+  for (const query of queries) {
+    found = await trySearch(query);
+    if (found) break;
+  }
+  if (!found) {
+    for (const query of await suggestSearchTerms(shoppingListItem.name, tried)) {
+      found = await trySearch(query.toLowerCase().trim());
+      if (found) break;
+    }
+  }
+
+  if (!found) {
+    logger.error(`No relevant results for "${searchTerm}" after ${tried.length} searches`);
+    return firstResults || { searchTerm, products: [] };
+  }
+
+  if (found.searchTerm !== searchTerm) {
+    logger.decision(`No relevant results for "${searchTerm}", using "${found.searchTerm}" instead`);
+  }
+  return found;
+}
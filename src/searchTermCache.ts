@@ -0,0 +1,40 @@
+import { config } from './config';
+import { JsonStore } from './jsonStore';
+
+/**
+ * Search terms per model, keyed by ingredient text
+ */
+type SearchTermStore = Record<string, Record<string, string>>;
+
+const store = new JsonStore<SearchTermStore>(config.searchTermCache.path, 'search term cache');
+
+/**
+ * Normalize an ingredient into a cache key
+ */
+function toKey(ingredient: string): string {
+  return ingredient.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Look up the cached search term for an ingredient
+ * @param model The model that derived the search term
+ * @param ingredient The ingredient text
+ * @returns The search term, or undefined if it isn't cached
+ */
+export function getCachedSearchTerm(model: string, ingredient: string): string | undefined {
+  return store.load()[model]?.[toKey(ingredient)];
+}
+
+/**
+ * Cache search terms derived by a model
+ * @param model The model that derived the search terms
+ * @param searchTerms Search terms keyed by ingredient text
+ */
+export function cacheSearchTerms(model: string, searchTerms: Record<string, string>): void {
+  const cache = store.load();
+  const modelCache = cache[model] || (cache[model] = {});
+  Object.entries(searchTerms).forEach(([ingredient, searchTerm]) => {
+    modelCache[toKey(ingredient)] = searchTerm;
+  });
+  store.save();
+}
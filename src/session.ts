@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import { APIRequestContext, Browser, BrowserContext, Page, request } from 'playwright';
+import { config } from './config';
+import { logger } from './logger';
+
+/**
+ * The parts of the hemkop.se customer response we read
+ */
+interface HemkopCustomerResponse {
+  uid?: string;
+  name?: string;
+}
+
+/**
+ * Create a browser context, reusing the saved login session if there is one
+ * @param browser The browser
+ * @returns The context, logged in if the saved session is still valid
+ */
+export async function createBrowserContext(browser: Browser): Promise<BrowserContext> {
+  if (fs.existsSync(config.session.storageStatePath)) {
+    logger.debug(`Reusing saved session from ${config.session.storageStatePath}`);
+    try {
+      return await browser.newContext({ storageState: config.session.storageStatePath });
+    } catch (error) {
+      logger.error(`Could not load saved session from ${config.session.storageStatePath}: ${error}`);
+    }
+  }
+
+  return browser.newContext();
+}
+
+/**
+ * Create a request context for the hemkop.se endpoints without opening a browser,
+ * reusing the saved login session if there is one
+ * @returns The request context, to be disposed of when done
+ */
+export async function createRequestContext(): Promise<APIRequestContext> {
+  if (fs.existsSync(config.session.storageStatePath)) {
+    try {
+      return await request.newContext({ storageState: config.session.storageStatePath });
+    } catch (error) {
+      logger.error(`Could not load saved session from ${config.session.storageStatePath}: ${error}`);
+    }
+  }
+
+  return request.newContext();
+}
+
+/**
+ * Check whether the browser session is logged in to hemkop.se
+ * @param page Playwright page
+ * @returns The customer name if logged in, otherwise undefined
+ */
+export async function getLoggedInCustomer(page: Page): Promise<string | undefined> {
+  try {
+    const response = await page.request.get(config.session.customerUrl, {
+      headers: { 'Accept': 'application/json' },
+      timeout: config.timeouts.navigation
+    });
+    if (!response.ok()) {
+      return undefined;
+    }
+
+    const customer = await response.json() as HemkopCustomerResponse;
+    if (!customer.uid || customer.uid === 'anonymous') {
+      return undefined;
+    }
+    return customer.name || customer.uid;
+  } catch (error) {
+    logger.debug(`Could not check login status: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Save the context's cookies and local storage so later runs stay logged in
+ * @param context The browser context
+ */
+export async function saveSession(context: BrowserContext): Promise<void> {
+  try {
+    await context.storageState({ path: config.session.storageStatePath });
+    logger.debug(`Session saved to ${config.session.storageStatePath}`);
+  } catch (error) {
+    logger.error(`Could not save session to ${config.session.storageStatePath}: ${error}`);
+  }
+}
+
+/**
+ * Open the login page and wait for the user to log in with BankID or password
+ * in the browser window
+ * @param page Playwright page in a headed browser
+ * @returns The customer name, or undefined if the login timed out
+ */
+export async function waitForLogin(page: Page): Promise<string | undefined> {
+  await page.goto(config.session.loginUrl);
+  await page.waitForLoadState('domcontentloaded');
+
+  logger.info(`Log in to hemkop.se in the browser window (BankID or password). Waiting up to ${config.session.loginTimeout / 1000} seconds...`);
+
+  const deadline = Date.now() + config.session.loginTimeout;
+  while (Date.now() < deadline) {
+    const customer = await getLoggedInCustomer(page);
+    if (customer) {
+      return customer;
+    }
+    await page.waitForTimeout(2000);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,65 @@
+import { config } from './config';
+import { ParsedIngredient, Product, ProductSelection } from './types';
+import { logger } from './logger';
+import { BasketLine, toBasketLine } from './basket';
+import { calculateOptimalQuantity } from './quantity';
+import { getEffectiveComparePrice } from './price';
+import { isSameKind, titleMatchScore } from './ruleBasedProvider';
+
+/**
+ * A basket line that couldn't be added, and what was added instead
+ */
+export interface Substitution {
+  original: BasketLine;
+  substitute?: BasketLine; // Undefined when no substitute could be added either
+}
+
+/**
+ * Find the next-best products for a selection, to add if the selected one can't be.
+ * Only products of the same kind qualify, so "äggnudlar" never stand in for eggs.
+ * @param item The shopping list item
+ * @param selection The selected product with the search results it was chosen from
+ * @returns Basket lines for the substitutes, best first
+ */
+export function findSubstitutes(item: ParsedIngredient, selection: ProductSelection): BasketLine[] {
+  const searchTerm = selection.searchTerm || item.name;
+
+  const ranked = (selection.candidates || [])
+    .filter(product => product.code !== selection.product.code && product.inStock !== false)
+    .filter(product => isSameKind(item.name, product.title))
+    .map(product => ({ product, score: titleMatchScore(item.name, product.title) }));
+
+  // Best match first, then the lowest compare price
+  const comparePrice = (product: Product) => getEffectiveComparePrice(product)?.amount ?? Number.POSITIVE_INFINITY;
+  ranked.sort((a, b) => b.score - a.score || comparePrice(a.product) - comparePrice(b.product));
+
+  return ranked.slice(0, config.substitution.maxSubstitutes).map(({ product, score }) => {
+    const substitute = { ...product };
+    substitute.quantity = calculateOptimalQuantity(substitute, item);
+    return toBasketLine(item.raw, searchTerm, {
+      product: substitute,
+      reasoning: `Substitute for "${selection.product.title}" if it can't be added`,
+      score
+    });
+  });
+}
+
+/**
+ * Log the lines that couldn't be added and what replaced them
+ * @param substitutions The substitutions made during the run
+ */
+export function logSubstitutions(substitutions: Substitution[]): void {
+  if (substitutions.length === 0) {
+    return;
+  }
+
+  logger.info('=== SUBSTITUTIONS ===');
+  substitutions.forEach(({ original, substitute }) => {
+    if (substitute) {
+      logger.info(`${original.item}: ${original.title} couldn't be added, used ${substitute.title} instead`);
+    } else {
+      logger.info(`${original.item}: ${original.title} couldn't be added and no substitute was available`);
+    }
+  });
+  logger.info('=====================');
+}
@@ -2,10 +2,166 @@
  * Shared interface for product information
  */
 export interface Product {
+  code?: string; // Hemköp product code, e.g. "101233933_ST"
   title: string;
-  element: any; // Playwright element
+  brand?: string;
+  element?: any; // Playwright element, set once the product is located in the browser
   price?: string;
   comparePrice?: string;
-  displayVolume?: string;
+  parsedPrice?: Price; // The regular price, with any multi-buy offer open to everyone
+  parsedComparePrice?: Price;
+  memberPrice?: Price; // Price or offer for loyalty club members only
+  offers?: string[]; // Campaign badges shown on the product, e.g. "Klipp" or "Köp 3 betala för 2"
+  unit?: string; // Selling unit of the price, e.g. "kr/st" or "kr/kg"
+  sellingUnit?: SellingUnit;
+  pieceWeight?: number; // Approximate grams per piece of a loose-weight product ("ca: 170g")
+  orderByWeight?: boolean; // Whether the site takes orders in kg for this product
+  displayVolume?: string; // Package size, e.g. "500g"
+  image?: string;
+  labels?: string[]; // Product labels from the site, e.g. "krav" or "ecological"
+  originCountry?: string;
+  allergens?: string[]; // From the product page, e.g. "mjölk"
+  ingredients?: string; // Ingredient list from the product page
+  nutrition?: NutritionFacts;
+  detailsLoaded?: boolean; // Whether the product page has been read
+  inStock?: boolean;
   quantity: number; // Track the quantity of the product
-} 
\ No newline at end of file
+}
+
+/**
+ * The unit a price is given per
+ */
+export type PriceUnit = 'st' | 'kg' | 'l';
+
+/**
+ * A multi-buy offer such as "2 för 40 kr"
+ */
+export interface MultiBuy {
+  quantity: number;
+  amount: number; // Öre for the whole group
+}
+
+/**
+ * A price read from the site
+ */
+export interface Price {
+  amount: number; // Öre per unit
+  currency: 'SEK';
+  unit: PriceUnit;
+  multiBuy?: MultiBuy;
+  regularAmount?: number; // Öre per unit outside the offer, when known
+  memberOnly?: boolean; // Only for loyalty club members
+  label?: string; // The offer as the site shows it, e.g. "Köp 3 betala för 2"
+}
+
+/**
+ * How a product is sold: single pieces, fixed packages, or loose weight priced per kg
+ */
+export type SellingUnit = 'piece' | 'package' | 'kg';
+
+/**
+ * The unit a cart quantity is given in
+ */
+export type PickUnit = 'pieces' | 'kilogram';
+
+/**
+ * Normalized Swedish recipe units
+ */
+export type IngredientUnit =
+  | 'krm' | 'tsk' | 'msk' | 'ml' | 'cl' | 'dl' | 'l'
+  | 'g' | 'kg'
+  | 'st' | 'burk' | 'paket' | 'klyfta' | 'nypa';
+
+/**
+ * An ingredient line split into amount, unit, name and preparation notes
+ */
+export interface ParsedIngredient {
+  raw: string; // The original ingredient text
+  amount?: number; // Lower bound when the amount is a range
+  amountMax?: number; // Upper bound for ranges like "2-3"
+  unit?: IngredientUnit;
+  name: string;
+  notes?: string; // Preparation notes such as "finhackad"
+}
+
+/**
+ * Ingredients extracted from a recipe page
+ */
+export interface Recipe {
+  name?: string;
+  ingredients: string[];
+  servings?: number; // From recipeYield, when the recipe states it
+}
+
+/**
+ * A product chosen for a shopping list item, with the reason it was chosen
+ */
+export interface ProductSelection {
+  product: Product;
+  reasoning: string;
+  score: number; // 0-1, how well the product matches the shopping list item
+  searchTerm?: string; // The search that found the product
+  candidates?: Product[]; // The search results the product was chosen from
+  fixed?: boolean; // Chosen or confirmed by the user, so the basket optimizer keeps it
+}
+
+/**
+ * How the basket optimizer trades price against the LLM's choices
+ */
+export type BasketStrategy = 'cheapest' | 'balanced' | 'premium';
+
+/**
+ * Options that control how a shopping run behaves
+ */
+export interface RunOptions {
+  dryRun: boolean; // Select products without touching the cart
+  interactive: boolean; // Let the user review each product choice
+  strategy?: BasketStrategy; // Optimize the basket for price
+  budget?: number; // Maximum expected total in öre
+  constraints?: ProductConstraints; // Dietary and brand rules every product must follow
+  enrich?: boolean; // Read the product pages of the top candidates
+  sync?: boolean; // Remove cart lines that aren't in the plan
+}
+
+/**
+ * Nutrition per 100 g or 100 ml
+ */
+export interface NutritionFacts {
+  energyKcal?: number;
+  fat?: number; // Grams
+  saturatedFat?: number;
+  carbohydrates?: number;
+  sugars?: number;
+  fibre?: number;
+  protein?: number;
+  salt?: number;
+}
+
+/**
+ * What a product page tells us beyond the search results
+ */
+export interface ProductDetails {
+  brand?: string;
+  originCountry?: string;
+  labels?: string[];
+  allergens?: string[];
+  ingredients?: string;
+  nutrition?: NutritionFacts;
+}
+
+/**
+ * A diet the whole basket has to suit
+ */
+export type Diet = 'vegetarian' | 'vegan';
+
+/**
+ * Rules for which products may be bought, combined from the active constraint profiles
+ */
+export interface ProductConstraints {
+  allergens?: string[]; // Allergens to avoid, e.g. "laktos", "gluten", "nötter"
+  diet?: Diet;
+  requiredLabels?: string[]; // Every product must carry one of these, e.g. "ekologisk", "krav"
+  preferredLabels?: string[]; // Preferred when choosing, but not required
+  brandAllow?: string[]; // Only these brands, when given
+  brandDeny?: string[]; // Never these brands
+}
@@ -0,0 +1,292 @@
+import { IngredientUnit, ParsedIngredient } from './types';
+import { getRequiredAmount } from './ingredientParser';
+import { wordForms } from './words';
+
+/**
+ * Volume units in millilitres
+ */
+const VOLUME_IN_ML: Partial<Record<IngredientUnit, number>> = {
+  krm: 1,
+  tsk: 5,
+  msk: 15,
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  nypa: 0.5
+};
+
+/**
+ * Weight units in grams
+ */
+const WEIGHT_IN_GRAMS: Partial<Record<IngredientUnit, number>> = {
+  g: 1,
+  kg: 1000
+};
+
+/**
+ * Ingredient densities in grams per decilitre
+ */
+const DENSITIES: Record<string, number> = {
+  'mjöl': 60,
+  'vetemjöl': 60,
+  'rågmjöl': 55,
+  'majsstärkelse': 60,
+  'maizena': 60,
+  'socker': 85,
+  'strösocker': 85,
+  'florsocker': 60,
+  'farinsocker': 70,
+  'pärlsocker': 70,
+  'havregryn': 35,
+  'ris': 85,
+  'couscous': 80,
+  'bulgur': 75,
+  'kakao': 40,
+  'ströbröd': 40,
+  'riven ost': 40,
+  'parmesan': 35,
+  'salt': 120,
+  'bakpulver': 80,
+  'bikarbonat': 90,
+  'honung': 140,
+  'sirap': 140,
+  'olja': 90,
+  'olivolja': 90,
+  'rapsolja': 90,
+  'smör': 95,
+  'mjölk': 100,
+  'grädde': 100,
+  'vispgrädde': 100,
+  'matlagningsgrädde': 100,
+  'yoghurt': 100,
+  'filmjölk': 100,
+  'gräddfil': 100,
+  'crème fraiche': 100,
+  'creme fraiche': 100,
+  'buljong': 100,
+  'vatten': 100,
+  'vin': 100,
+  'passerade tomater': 105,
+  'krossade tomater': 105
+};
+
+/**
+ * Density used for volumes of unknown ingredients, roughly that of water
+ */
+const DEFAULT_DENSITY = 100;
+
+/**
+ * Typical weight in grams of one piece of an ingredient
+ */
+const PIECE_WEIGHTS: Record<string, number> = {
+  'ägg': 60,
+  'äggula': 20,
+  'äggulor': 20,
+  'äggvita': 35,
+  'äggvitor': 35,
+  'lök': 150,
+  'gul lök': 150,
+  'rödlök': 120,
+  'schalottenlök': 30,
+  'purjolök': 250,
+  'vitlök': 50,
+  'potatis': 100,
+  'sötpotatis': 300,
+  'morot': 70,
+  'morötter': 70,
+  'palsternacka': 150,
+  'tomat': 100,
+  'körsbärstomat': 15,
+  'paprika': 150,
+  'gurka': 350,
+  'zucchini': 300,
+  'aubergine': 300,
+  'avokado': 200,
+  'citron': 100,
+  'lime': 70,
+  'apelsin': 200,
+  'banan': 120,
+  'äpple': 150,
+  'äpplen': 150,
+  'päron': 170,
+  'kycklingfilé': 125,
+  'kycklingbröst': 125,
+  'chili': 15,
+  'ingefära': 50,
+  'broccoli': 400,
+  'blomkål': 700,
+  'sallad': 250,
+  'selleri': 40
+};
+
+/**
+ * Weight of one clove of garlic in grams
+ */
+const GARLIC_CLOVE_WEIGHT = 5;
+
+/**
+ * Typical weight of a can when the recipe asks for "1 burk"
+ */
+const CAN_WEIGHT = 400;
+
+/**
+ * Find the table entry matching an ingredient or product name.
+ * Swedish compounds put the base word last ("vetemjöl", "gul lök"), so
+ * words are checked from the end and compounds match on their suffix.
+ */
+function lookup(table: Record<string, number>, name: string): number | undefined {
+  const normalized = name.toLowerCase().replace(/[^a-zåäöéè\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (table[normalized] !== undefined) {
+    return table[normalized];
+  }
+
+  // Multi-word keys like "krossade tomater"
+  const phraseKey = Object.keys(table)
+    .filter(key => key.includes(' ') && normalized.includes(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (phraseKey) {
+    return table[phraseKey];
+  }
+
+  const words = normalized.split(' ').reverse();
+  for (const word of words) {
+    const candidates = wordForms(word);
+    for (const candidate of candidates) {
+      const key = Object.keys(table)
+        .filter(k => !k.includes(' ') && k.length > 1 && (candidate === k || candidate.endsWith(k)))
+        .sort((a, b) => b.length - a.length)[0];
+      if (key) {
+        return table[key];
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the density of an ingredient in grams per decilitre
+ * @param name Ingredient or product name
+ * @returns Density in g/dl, falling back to the density of water
+ */
+export function getDensity(name: string): number {
+  return lookup(DENSITIES, name) ?? DEFAULT_DENSITY;
+}
+
+/**
+ * Get the typical weight of one piece of an ingredient
+ * @param name Ingredient or product name
+ * @returns Weight in grams, or undefined if unknown
+ */
+export function getPieceWeight(name: string): number | undefined {
+  return lookup(PIECE_WEIGHTS, name);
+}
+
+/**
+ * Convert an amount in a volume unit to millilitres
+ * @param amount The amount
+ * @param unit The unit
+ * @returns The volume in ml, or undefined if the unit isn't a volume
+ */
+export function toMillilitres(amount: number, unit: IngredientUnit | undefined): number | undefined {
+  return unit && VOLUME_IN_ML[unit] !== undefined ? amount * VOLUME_IN_ML[unit]! : undefined;
+}
+
+/**
+ * Convert an amount in a recipe unit to grams
+ * @param amount The amount
+ * @param unit The unit, or undefined for a piece count
+ * @param name The ingredient name, used for densities and piece weights
+ * @returns The weight in grams, or undefined if it can't be converted
+ */
+export function toGrams(amount: number, unit: IngredientUnit | undefined, name: string): number | undefined {
+  if (unit && WEIGHT_IN_GRAMS[unit] !== undefined) {
+    return amount * WEIGHT_IN_GRAMS[unit]!;
+  }
+
+  if (unit && VOLUME_IN_ML[unit] !== undefined) {
+    const decilitres = amount * VOLUME_IN_ML[unit]! / 100;
+    return decilitres * getDensity(name);
+  }
+
+  if (unit === 'klyfta') {
+    return amount * GARLIC_CLOVE_WEIGHT;
+  }
+
+  if (unit === 'burk') {
+    return amount * CAN_WEIGHT;
+  }
+
+  if (!unit || unit === 'st') {
+    const pieceWeight = getPieceWeight(name);
+    return pieceWeight !== undefined ? amount * pieceWeight : undefined;
+  }
+
+  // Packages have no fixed size
+  return undefined;
+}
+
+/**
+ * Get the required weight of an ingredient, converting volumes and pieces
+ * @param ingredient The parsed ingredient
+ * @returns The weight in grams, or 0 if it can't be determined
+ */
+export function getIngredientWeightInGrams(ingredient: ParsedIngredient): number {
+  const amount = getRequiredAmount(ingredient);
+  if (amount === undefined) {
+    return 0;
+  }
+
+  return toGrams(amount, ingredient.unit, ingredient.name) ?? 0;
+}
+
+/**
+ * Check whether an ingredient is counted in whole packages ("2 burkar", "1 paket")
+ * @param ingredient The parsed ingredient
+ * @returns Whether the amount is a package count
+ */
+export function isPackageCount(ingredient: ParsedIngredient): boolean {
+  return ingredient.unit === 'burk' || ingredient.unit === 'paket';
+}
+
+/**
+ * Parse a package size such as "500g", "1,5 kg", "1l", "50 cl" or "12 st" into grams
+ * @param displayVolume The package size text from the product
+ * @param productName The product name, used for densities and piece weights
+ * @returns The package weight in grams, or 0 if it can't be determined
+ */
+export function parsePackageSize(displayVolume: string | undefined, productName: string): number {
+  if (!displayVolume) {
+    return 0;
+  }
+
+  // Multipacks such as "6x33cl" or "4 x 125g"
+  const multiMatch = displayVolume.match(/(\d+)\s*x\s*(\d+(?:[.,]\d+)?)\s*(kg|g|ml|cl|dl|l)\b/i);
+  if (multiMatch) {
+    const count = parseInt(multiMatch[1], 10);
+    const size = toGrams(parseFloat(multiMatch[2].replace(',', '.')), multiMatch[3].toLowerCase() as IngredientUnit, productName);
+    return size ? count * size : 0;
+  }
+
+  const match = displayVolume.match(/(\d+(?:[.,]\d+)?)\s*(kg|g|ml|cl|dl|l|st)\b/i);
+  if (!match) {
+    return 0;
+  }
+
+  const amount = parseFloat(match[1].replace(',', '.'));
+  const unit = match[2].toLowerCase() as IngredientUnit;
+  return toGrams(amount, unit, productName) ?? 0;
+}
+
+/**
+ * Format a weight in grams for display
+ * @param grams The weight in grams
+ * @returns Text such as "750g" or "1.50kg"
+ */
+export function formatWeight(grams: number): string {
+  if (grams >= 1000) {
+    return `${(grams / 1000).toFixed(2)}kg`;
+  }
+  return `${Math.round(grams)}g`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Plural and definite endings ignored when comparing Swedish words, longest first
+ */
+export const WORD_ENDINGS = ['arna', 'orna', 'erna', 'ar', 'or', 'er', 'en', 'et', 'na', 'n', 'r'];
+
+/**
+ * Descriptive words that narrow a search more than the store's product titles do
+ */
+export const ADJECTIVES = [
+  'färsk', 'färska', 'fryst', 'frysta', 'torkad', 'torkade', 'rökt', 'rökta', 'kokt', 'kokta',
+  'hel', 'hela', 'mald', 'malda', 'riven', 'rivna', 'hackad', 'hackade', 'finhackad', 'krossad', 'krossade',
+  'skalad', 'skalade', 'stor', 'stora', 'liten', 'små', 'gul', 'gula', 'röd', 'röda', 'grön', 'gröna',
+  'svart', 'svarta', 'vit', 'vita', 'ekologisk', 'ekologiska', 'eko', 'fin', 'fint', 'grov', 'grovt',
+  'lätt', 'mager', 'magra', 'fet', 'feta', 'söt', 'söta', 'sur', 'sura', 'naturell', 'osaltad', 'osaltat'
+];
+
+/**
+ * Split a text into lowercase words
+ * @param text The text
+ * @param minLength Shorter words are dropped
+ * @returns The words in order
+ */
+export function toWords(text: string, minLength: number = 1): string[] {
+  return text.toLowerCase().split(/[^a-zåäöéè]+/).filter(word => word.length >= minLength);
+}
+
+/**
+ * Get a word with each plural or definite ending it may have taken off
+ * @param word The lowercase word
+ * @param minStem Endings are only taken off when at least this many letters remain
+ * @returns The word itself first, then its possible stems
+ */
+export function wordForms(word: string, minStem: number = 1): string[] {
+  return [word, ...WORD_ENDINGS
+    .filter(ending => word.endsWith(ending) && word.length - ending.length >= minStem)
+    .map(ending => word.slice(0, -ending.length))];
+}
+
+/**
+ * Get the shortest form of a word, so plural and definite forms give the same stem
+ * ("lökar" and "lök" both give "lök")
+ * @param word The lowercase word
+ * @returns The word with its longest possible ending taken off
+ */
+export function wordStem(word: string): string {
+  return wordForms(word, 3).reduce((shortest, form) => form.length < shortest.length ? form : shortest);
+}
+
+/**
+ * Check whether two words are the same, allowing plural and definite endings
+ * @param a A lowercase word
+ * @param b Another lowercase word
+ * @returns Whether one is the other with or without an ending
+ */
+export function sameWord(a: string, b: string): boolean {
+  return a === b || WORD_ENDINGS.some(ending => a === b + ending || b === a + ending);
+}